@@ -0,0 +1,82 @@
+import { AccessConfig } from './config'
+import { TaskSession } from './session'
+
+export interface CommandAccess {
+  name: string          // 命令名，用于提示与冷却计时
+  config: AccessConfig
+}
+
+// 群组或频道名单中的条目可以是 ID，也可以是 `平台:ID`
+function matches(list: string[] | undefined, platform: string, id: string | undefined) {
+  if (!id || !list?.length) return false
+  return list.includes(id) || list.includes(`${platform}:${id}`)
+}
+
+// 命令的使用权限：权限等级、群组/频道名单、私聊开关与冷却时间
+export function createAccessControl() {
+  const lastUsed = new Map<string, number>()   // `${命令}:user|guild:${平台}:${ID}` -> 上次使用时间
+
+  async function getAuthority(session: TaskSession) {
+    const user = session.user as { authority?: number } | undefined
+    if (user?.authority !== undefined) return user.authority
+    const fetched = await session.getUser(session.userId, ['authority'])
+    return fetched?.authority ?? 0
+  }
+
+  function cooldownKeys(session: TaskSession, name: string) {
+    return {
+      user: `${name}:user:${session.platform}:${session.userId}`,
+      guild: session.guildId ? `${name}:guild:${session.platform}:${session.guildId}` : undefined,
+    }
+  }
+
+  function remaining(key: string | undefined, seconds: number | undefined, now: number) {
+    if (!key || !seconds) return 0
+    return Math.max(0, (lastUsed.get(key) || 0) + seconds * 1000 - now)
+  }
+
+  // 检查是否可以使用，不可用时返回提示
+  async function check(session: TaskSession, { name, config: access }: CommandAccess): Promise<string | undefined> {
+    const { platform, guildId, channelId } = session
+
+    if (!guildId) {
+      if (access.privateChat === false) return session.text('yunwu-figurine.access.private', [name])
+    } else {
+      if (matches(access.denyGuilds, platform, guildId)) return session.text('yunwu-figurine.access.guild', [name])
+      if (access.allowGuilds?.length && !matches(access.allowGuilds, platform, guildId)) return session.text('yunwu-figurine.access.guild', [name])
+      if (matches(access.denyChannels, platform, channelId)) return session.text('yunwu-figurine.access.channel', [name])
+      if (access.allowChannels?.length && !matches(access.allowChannels, platform, channelId)) return session.text('yunwu-figurine.access.channel', [name])
+    }
+
+    if (access.authority && await getAuthority(session) < access.authority) {
+      return session.text('yunwu-figurine.access.authority', [name, access.authority])
+    }
+
+    const now = Date.now()
+    const keys = cooldownKeys(session, name)
+    const userWait = remaining(keys.user, access.userCooldown, now)
+    if (userWait > 0) return session.text('yunwu-figurine.access.user-cooldown', [name, Math.ceil(userWait / 1000)])
+    const guildWait = remaining(keys.guild, access.guildCooldown, now)
+    if (guildWait > 0) return session.text('yunwu-figurine.access.guild-cooldown', [name, Math.ceil(guildWait / 1000)])
+  }
+
+  // 任务开始后记录使用时间，冷却从此刻开始计算
+  function touch(session: TaskSession, { name, config: access }: CommandAccess) {
+    const now = Date.now()
+    const keys = cooldownKeys(session, name)
+    if (access.userCooldown) lastUsed.set(keys.user, now)
+    if (access.guildCooldown && keys.guild) lastUsed.set(keys.guild, now)
+  }
+
+  // 清理一天前的记录
+  function prune() {
+    const expired = Date.now() - 86400000
+    for (const [key, time] of lastUsed) {
+      if (time < expired) lastUsed.delete(key)
+    }
+  }
+
+  return { check, touch, prune }
+}
+
+export type AccessControl = ReturnType<typeof createAccessControl>
@@ -0,0 +1,116 @@
+import { Context, Element, h } from 'koishi'
+import { createHash, timingSafeEqual } from 'crypto'
+import { ApiTokenConfig } from './config'
+import { TaskSession } from './session'
+
+export type ApiJobStatus = 'running' | 'success' | 'partial' | 'failed'
+
+export interface ApiJob {
+  id: string
+  owner: string           // 令牌名称
+  label: string
+  numImages: number
+  status: ApiJobStatus
+  messages: string[]      // 任务过程中的提示，如开始处理、排队位置
+  images: string[]        // 生成结果的地址：data URL 或远程 URL
+  error?: string
+  createdAt: number
+  finishedAt?: number
+}
+
+function digest(value: string) {
+  return createHash('sha256').update(value).digest()
+}
+
+// 按 Authorization: Bearer <令牌> 查找令牌，比较时间与内容无关
+export function findToken(tokens: ApiTokenConfig[], header: string | undefined) {
+  const token = header?.match(/^Bearer\s+(.+)$/i)?.[1]
+  if (!token) return
+  const hashed = digest(token)
+  return tokens.find(item => item.token && timingSafeEqual(digest(item.token), hashed))
+}
+
+// 任务过程中发送的提示与图片
+export type ApiOutput = Pick<ApiJob, 'messages' | 'images'>
+
+// HTTP 任务使用的会话：平台为 http，用户ID为令牌名称，语言取自 Accept-Language；发送的消息记录到 output 中，不会发往聊天
+export function createApiSession(ctx: Context, token: ApiTokenConfig, locales: string[], output: ApiOutput): TaskSession {
+  return {
+    platform: 'http',
+    userId: token.name,
+    username: token.name,
+    locales,
+    async getUser() {
+      return { authority: token.authority ?? 1 }
+    },
+    text(path: string | string[], params: object = {}) {
+      return ctx.i18n.render(locales, [path].flat(), params).join('')
+    },
+    async send(content: Element.Fragment) {
+      const elements = h.normalize(content)
+      output.images.push(...h.select(elements, 'img').map(element => element.attrs.src))
+      const text = h.select(elements, 'text').map(element => element.attrs.content).join('').trim()
+      if (text) output.messages.push(text)
+      return []
+    },
+  }
+}
+
+// 读取生成结果：data URL 直接返回内容，远程 URL 返回地址由调用方重定向
+export function readResult(src: string): { mimeType: string, data: Buffer } | string {
+  const capture = /^data:([\w/.+-]+);base64,(.*)$/.exec(src)
+  if (capture) {
+    return { mimeType: capture[1], data: Buffer.from(capture[2], 'base64') }
+  }
+  return src
+}
+
+// HTTP 任务记录，完成后保留一段时间供查询与下载
+export function createApiJobs() {
+  const jobs = new Map<string, ApiJob>()
+  let counter = 0
+
+  function create(owner: string, label: string, numImages: number, output: ApiOutput) {
+    const job: ApiJob = {
+      id: `${Date.now().toString(36)}-${(++counter).toString(36)}`,
+      owner,
+      label,
+      numImages,
+      status: 'running',
+      messages: output.messages,
+      images: output.images,
+      createdAt: Date.now(),
+    }
+    jobs.set(job.id, job)
+    return job
+  }
+
+  // 任务流程返回提示文字表示失败，否则按生成数量判断是否全部成功
+  function finish(job: ApiJob, error?: string) {
+    job.finishedAt = Date.now()
+    if (error || !job.images.length) {
+      job.status = 'failed'
+      job.error = error
+    } else {
+      job.status = job.images.length < job.numImages ? 'partial' : 'success'
+    }
+  }
+
+  // 只能查询自己的任务
+  function get(id: string, owner: string) {
+    const job = jobs.get(id)
+    return job?.owner === owner ? job : undefined
+  }
+
+  // 清理完成超过 maxAge 毫秒的任务
+  function prune(maxAge: number) {
+    const expired = Date.now() - maxAge
+    for (const [id, job] of jobs) {
+      if (job.finishedAt && job.finishedAt < expired) jobs.delete(id)
+    }
+  }
+
+  return { create, finish, get, prune }
+}
+
+export type ApiJobs = ReturnType<typeof createApiJobs>
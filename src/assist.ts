@@ -0,0 +1,90 @@
+import { Context, Logger } from 'koishi'
+import { Config } from './config'
+import { KeyPool } from './keys'
+import { CallRecord, classifyError, InputImage, withRetry } from './providers'
+import { buildContent, parseGeminiText, parseGeminiUsage } from './providers/gemini'
+
+// 文字模型请求：系统指令，以及用户的文字与图片
+export interface AssistRequest {
+  instruction: string
+  text?: string
+  images?: InputImage[]
+  signal?: AbortSignal
+  onCall?: (record: CallRecord) => void
+}
+
+// 提示词助手：在 Gemini 图像模型的同一个API地址上调用文字模型，只返回文字
+export function createAssistant(ctx: Context, config: Config, logger: Logger, keys: KeyPool) {
+  async function generate(request: AssistRequest) {
+    const model = config.assistModel
+    const requestData = {
+      systemInstruction: { parts: [{ text: request.instruction }] },
+      contents: [buildContent('user', request.text, request.images || [])],
+      generationConfig: {
+        responseModalities: ['TEXT']
+      }
+    }
+
+    return withRetry(async () => {
+      const lease = keys.acquire()
+      const startedAt = Date.now()
+      try {
+        const response = await ctx.http.post(
+          `${config.apiBaseUrl}/v1beta/models/${model}:generateContent`,
+          requestData,
+          {
+            headers: {
+              'Content-Type': 'application/json'
+            },
+            params: {
+              key: lease.key
+            },
+            timeout: config.apiTimeout * 1000,
+            signal: request.signal
+          }
+        )
+        keys.success(lease)
+
+        const text = parseGeminiText(response)
+        request.onCall?.({
+          provider: 'gemini',
+          model,
+          outcome: text ? 'success' : 'refused',
+          images: 0,
+          usage: parseGeminiUsage(response),
+          duration: Date.now() - startedAt
+        })
+        logger.debug('文字模型调用成功', { model, usage: response?.usageMetadata, length: text.length })
+        return text
+      } catch (error: any) {
+        if (request.signal?.aborted) throw request.signal.reason
+        // 不要直接抛出原始错误，避免泄露API密钥
+        const classified = classifyError(error)
+        keys.failure(lease, classified)
+        request.onCall?.({ provider: 'gemini', model, outcome: classified.kind, images: 0, duration: Date.now() - startedAt })
+        logger.warn('文字模型调用失败', { model, kind: classified.kind, status: classified.status })
+        throw classified
+      }
+    }, {
+      maxRetries: config.maxRetries,
+      baseDelay: config.retryBaseDelay * 1000,
+      maxDelay: config.retryMaxDelay * 1000
+    }, logger, `gemini:${model}`, request.signal)
+  }
+
+  // 扩写或翻译用户的 prompt，instruction 由调用方按会话语言选取
+  async function rewrite(prompt: string, instruction: string, signal?: AbortSignal, onCall?: (record: CallRecord) => void) {
+    const text = await generate({ instruction, text: prompt, signal, onCall })
+    logger.debug('prompt 优化完成', { prompt, rewritten: text })
+    return text
+  }
+
+  // 描述图片，或为图片写一段可用于生成的提示词；text 为用户附加的要求
+  async function describe(image: InputImage, instruction: string, text?: string, signal?: AbortSignal, onCall?: (record: CallRecord) => void) {
+    return generate({ instruction, text, images: [image], signal, onCall })
+  }
+
+  return { generate, rewrite, describe }
+}
+
+export type Assistant = ReturnType<typeof createAssistant>
@@ -0,0 +1,141 @@
+import { createHash } from 'crypto'
+import { GenerationParams, ProviderRoute } from './config'
+import { ImageEditResult, InputImage } from './providers'
+import { abortable, Job } from './scheduler'
+
+export interface CacheKeyParts {
+  images: InputImage[]        // 规范化后的输入图片
+  prompt: string              // 填充模板后的完整 prompt
+  routes: ProviderRoute[]
+  params?: GenerationParams
+  numImages: number
+}
+
+export interface CachedResult {
+  outputs: string[]           // 生成结果的存储引用
+  route: ProviderRoute
+}
+
+export type GeneratedResult = ImageEditResult & { route: ProviderRoute }
+
+// 等待共享生成的任务；owner 为负责这次生成的任务，占用执行槽位并支付额度
+export interface Participant {
+  job: Job
+  owner: boolean
+}
+
+// 正在进行的生成：使用独立的中止信号，participants 为仍在等待结果的任务
+interface PendingGeneration {
+  promise: Promise<GeneratedResult>
+  controller: AbortController
+  participants: Participant[]
+}
+
+export interface CacheOptions {
+  ttl: number                 // 有效期（毫秒）
+  maxEntries: number          // 最多缓存条数，超出时淘汰最久未使用的
+  onHandOff?: (from: Job, to: Job) => void  // 负责生成的任务离开时交给下一个等待的任务
+}
+
+// 结果缓存：以输入图片、prompt、模型与生成参数的哈希为键；同时记录正在进行的生成，相同请求共享同一次调用
+export function createResultCache(options: CacheOptions) {
+  const entries = new Map<string, CachedResult & { expiresAt: number }>()
+  const pending = new Map<string, PendingGeneration>()
+
+  function key(parts: CacheKeyParts) {
+    const hash = createHash('sha256')
+    hash.update(JSON.stringify({
+      prompt: parts.prompt,
+      routes: parts.routes.map(route => `${route.provider}:${route.model || ''}`),
+      params: parts.params || {},
+      numImages: parts.numImages,
+    }))
+    for (const image of parts.images) {
+      hash.update('\0')
+      hash.update(image.data)
+    }
+    return hash.digest('hex')
+  }
+
+  function get(key: string): CachedResult | undefined {
+    const entry = entries.get(key)
+    if (!entry) return
+    if (entry.expiresAt < Date.now()) {
+      entries.delete(key)
+      return
+    }
+    // 重新插入以更新使用顺序
+    entries.delete(key)
+    entries.set(key, entry)
+    return { outputs: entry.outputs, route: entry.route }
+  }
+
+  function set(key: string, result: CachedResult) {
+    if (options.maxEntries <= 0) return
+    entries.delete(key)
+    entries.set(key, { ...result, expiresAt: Date.now() + options.ttl })
+    while (entries.size > options.maxEntries) {
+      entries.delete(entries.keys().next().value!)
+    }
+  }
+
+  // 等待生成结果；任务取消或超时只让自己停止等待，负责的任务离开时交给下一个等待的任务，所有任务都离开后才中止生成
+  function wait(entry: PendingGeneration, participant: Participant) {
+    const { signal } = participant.job.controller
+    entry.participants.push(participant)
+    const remove = () => {
+      const index = entry.participants.indexOf(participant)
+      if (index >= 0) entry.participants.splice(index, 1)
+    }
+    const leave = () => {
+      remove()
+      const [next] = entry.participants
+      if (!next) return entry.controller.abort(signal.reason)
+      if (!participant.owner) return
+      participant.owner = false
+      next.owner = true
+      options.onHandOff?.(participant.job, next.job)
+    }
+    signal.addEventListener('abort', leave, { once: true })
+    return abortable(entry.promise, signal).finally(() => {
+      signal.removeEventListener('abort', leave)
+      remove()
+    })
+  }
+
+  // 发起一次可共享的生成并负责它，结束后自动移除；已有相同的生成时由新的代替
+  function start(key: string, participant: Participant, run: (signal: AbortSignal) => Promise<GeneratedResult>) {
+    const controller = new AbortController()
+    const entry: PendingGeneration = { promise: run(controller.signal), controller, participants: [] }
+    pending.set(key, entry)
+    entry.promise.catch(() => {}).finally(() => {
+      if (pending.get(key) === entry) pending.delete(key)
+    })
+    participant.owner = true
+    return wait(entry, participant)
+  }
+
+  // 加入正在进行的相同生成，没有时返回 undefined
+  function join(key: string, participant: Participant) {
+    const entry = pending.get(key)
+    return entry && wait(entry, participant)
+  }
+
+  function prune() {
+    const now = Date.now()
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt < now) entries.delete(key)
+    }
+  }
+
+  return {
+    key,
+    get,
+    set,
+    start,
+    join,
+    prune,
+  }
+}
+
+export type ResultCache = ReturnType<typeof createResultCache>
@@ -0,0 +1,522 @@
+import { Schema } from 'koishi'
+
+export type ProviderName = 'gemini' | 'fal' | 'openai' | 'mock'
+
+// 本地模拟提供方的返回：正常生成、安全拦截、提示词被拦截、空响应、只返回文字、限流、上游错误、超时
+export type MockScenario = 'success' | 'safety' | 'prompt_blocked' | 'empty' | 'text_only' | 'quota' | 'upstream' | 'timeout'
+
+// 提供方 + 模型，模型为空时使用该提供方的默认模型
+export interface ProviderRoute {
+  provider: ProviderName
+  model?: string
+}
+
+// 风格模板参数，prompt 中以 {name} 引用
+export interface StyleParam {
+  name: string
+  description?: string
+  default?: string
+  choices?: string[]    // 允许的取值，为空时不限
+  random?: boolean      // 未指定且无默认值时从 choices 中随机选取
+}
+
+// 输入图片要求：必需 / 可选（没有图片时直接按 prompt 生成）/ 不接受
+export type ImageMode = 'required' | 'optional' | 'forbidden'
+
+export const imageModes: ImageMode[] = ['required', 'optional', 'forbidden']
+
+// 结果图片的输出格式，original 保持提供方返回的格式
+export type OutputFormat = 'original' | 'png' | 'jpeg' | 'webp'
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center'
+
+// 结果图片的发送方式：直接发送图片数据 / 上传到 assets 服务 / 由本插件的 HTTP 路由提供
+export type OutputHosting = 'inline' | 'assets' | 'local'
+
+// 命令的使用权限与冷却，名单中的条目可以是 ID 或 `平台:ID`
+export interface AccessConfig {
+  authority?: number
+  allowGuilds?: string[]  // 为空时不限
+  denyGuilds?: string[]
+  allowChannels?: string[]
+  denyChannels?: string[]
+  privateChat?: boolean
+  userCooldown?: number   // 秒
+  guildCooldown?: number  // 秒
+}
+
+// 生成参数，提供方按所选模型的支持情况转换为各自的请求字段
+export interface GenerationParams {
+  aspectRatio?: string    // 宽高比，如 16:9
+  imageSize?: string      // 输出分辨率，如 1K、2K、4K
+  seed?: number
+  temperature?: number
+  negativePrompt?: string // 不希望出现的内容，附加在 prompt 末尾
+}
+
+// 风格的其他语言版本，按用户语言选用，留空的字段使用风格本身的描述与 prompt
+export interface StyleTranslation {
+  locale: string
+  description?: string
+  prompt?: string
+}
+
+export interface StyleConfig extends AccessConfig, GenerationParams {
+  commandName: string
+  commandDescription: string
+  prompt: string
+  enabled: boolean
+  provider?: ProviderName
+  model?: string
+  fallbacks?: ProviderRoute[]
+  cost?: number
+  imageMode?: ImageMode
+  minImages?: number
+  maxImages?: number
+  params?: StyleParam[]
+  translations?: StyleTranslation[]
+}
+
+export interface ApiKeyConfig {
+  key: string
+  label?: string
+  weight?: number
+  dailyCap?: number     // 每日请求上限，0 表示不限
+}
+
+// 模型单价，用于估算费用：token 单价按每百万 token 计，另可按张计价
+export interface ModelPrice {
+  model: string
+  inputPrice?: number
+  outputPrice?: number
+  imagePrice?: number
+}
+
+// HTTP 接口的访问令牌，名称作为任务的用户ID，用于额度、冷却与历史记录
+export interface ApiTokenConfig {
+  name: string
+  token: string
+  authority?: number
+}
+
+export interface Config {
+  apiKey: string
+  apiKeys: ApiKeyConfig[]
+  keyStrategy: 'round-robin' | 'weighted'
+  keyCooldown: number
+  keyAdminAuthority: number
+  apiBaseUrl: string
+  apiTimeout: number
+  commandTimeout: number
+  backgroundTimeout: number
+  resumeJobs: boolean
+  defaultNumImages: number
+  maxInputSize: number
+  maxInputEdge: number
+  maxConcurrency: number
+  maxGuildConcurrency: number
+  batchMaxItems: number
+
+  defaultProvider: ProviderName
+  modelId: string
+  falModelId: string
+  openaiModelId: string
+  pollInterval: number
+  maxPollAttempts: number
+  fallbacks: ProviderRoute[]
+  mockLatency: number
+  mockScenario: MockScenario
+
+  maxRetries: number
+  retryBaseDelay: number
+  retryMaxDelay: number
+  circuitThreshold: number
+  circuitCooldown: number
+
+  quotaEnabled: boolean
+  userDailyQuota: number
+  userMonthlyQuota: number
+  guildDailyQuota: number
+  guildMonthlyQuota: number
+  customPromptCost: number
+  assistCost: number
+  quotaAdminAuthority: number
+
+  customPromptAccess: AccessConfig
+  mergeAccess: AccessConfig
+  textToImageAccess: AccessConfig
+  describeAccess: AccessConfig
+
+  promptAssist: boolean
+  assistModel: string
+  assistInstruction: string
+  describeInstruction: string
+  suggestInstruction: string
+
+  cacheEnabled: boolean
+  cacheTtl: number
+  cacheMaxEntries: number
+
+  continueEditing: boolean
+  conversationTrigger: 'mention' | 'any'
+  conversationMaxTurns: number
+  conversationTimeout: number
+
+  storageBackend: 'local' | 'assets'
+  storagePath: string
+
+  outputFormat: OutputFormat
+  outputQuality: number
+  maxOutputEdge: number
+  stripMetadata: boolean
+  watermarkText: string
+  watermarkImage: string
+  watermarkPosition: WatermarkPosition
+  watermarkOpacity: number
+  watermarkScale: number
+  outputHosting: OutputHosting
+  outputPath: string
+  outputBaseUrl: string
+  outputRetention: number
+
+  statsAuthority: number
+  modelPrices: ModelPrice[]
+
+  apiEnabled: boolean
+  apiPath: string
+  apiTokens: ApiTokenConfig[]
+
+  styleAdminAuthority: number
+  styles: StyleConfig[]
+}
+
+const providerName = Schema.union([
+  Schema.const('gemini' as const).description('Gemini generateContent'),
+  Schema.const('fal' as const).description('fal-ai 队列接口'),
+  Schema.const('openai' as const).description('OpenAI 兼容 /v1/images/edits'),
+  Schema.const('mock' as const).description('本地模拟（不调用API，用于离线开发与测试）'),
+])
+
+const providerRoute: Schema<ProviderRoute> = Schema.object({
+  provider: providerName.required().description('提供方'),
+  model: Schema.string().description('模型ID（留空使用该提供方的默认模型）')
+})
+
+const apiKeyConfig: Schema<ApiKeyConfig> = Schema.object({
+  key: Schema.string().role('secret').required().description('API密钥'),
+  label: Schema.string().description('备注名称，显示在密钥状态中'),
+  weight: Schema.natural().default(1).description('权重（按权重分配时生效）'),
+  dailyCap: Schema.natural().default(0).description('每日请求上限（0 为不限）')
+})
+
+const accessFields = {
+  authority: Schema.natural().default(0).description('最低权限等级'),
+  allowGuilds: Schema.array(String).role('table').description('只允许在这些群组中使用（留空不限）'),
+  denyGuilds: Schema.array(String).role('table').description('禁止在这些群组中使用'),
+  allowChannels: Schema.array(String).role('table').description('只允许在这些频道中使用（留空不限）'),
+  denyChannels: Schema.array(String).role('table').description('禁止在这些频道中使用'),
+  privateChat: Schema.boolean().default(true).description('允许在私聊中使用'),
+  userCooldown: Schema.natural().default(0).description('每个用户的冷却时间（秒）'),
+  guildCooldown: Schema.natural().default(0).description('每个群组的冷却时间（秒）')
+}
+
+export const AccessConfig: Schema<AccessConfig> = Schema.object(accessFields)
+
+const modelPrice: Schema<ModelPrice> = Schema.object({
+  model: Schema.string().required().description('模型ID'),
+  inputPrice: Schema.number().default(0).description('输入单价（每百万 token）'),
+  outputPrice: Schema.number().default(0).description('输出单价（每百万 token）'),
+  imagePrice: Schema.number().default(0).description('每张图片单价')
+})
+
+const apiTokenConfig: Schema<ApiTokenConfig> = Schema.object({
+  name: Schema.string().required().description('名称'),
+  token: Schema.string().role('secret').required().description('令牌'),
+  authority: Schema.natural().default(1).description('权限等级')
+})
+
+export const StyleParam: Schema<StyleParam> = Schema.object({
+  name: Schema.string().required().description('参数名称，prompt 中以 {名称} 引用，也可通过 --名称 指定'),
+  description: Schema.string().description('参数说明，显示在命令帮助中'),
+  default: Schema.string().description('默认值'),
+  choices: Schema.array(String).role('table').description('允许的取值（留空不限）'),
+  random: Schema.boolean().default(false).description('未指定且无默认值时从允许的取值中随机选取')
+})
+
+const styleTranslation: Schema<StyleTranslation> = Schema.object({
+  locale: Schema.string().required().description('语言代码，如 en-US'),
+  description: Schema.string().description('命令描述'),
+  prompt: Schema.string().role('textarea', { rows: 4 }).description('生成 prompt')
+})
+
+export const StyleConfig: Schema<StyleConfig> = Schema.object({
+  commandName: Schema.string().required().description('命令名称（不含前缀斜杠）'),
+  commandDescription: Schema.string().required().description('命令描述'),
+  prompt: Schema.string().role('textarea', { rows: 4 }).required()
+    .description('生成 prompt，支持 {参数名}、{nickname}（调用者昵称）、{text}（图片后未被参数使用的文字）与 {甲|乙|丙}（随机选取）'),
+  enabled: Schema.boolean().default(true).description('是否启用此命令'),
+  provider: providerName.description('提供方（留空使用默认提供方）'),
+  model: Schema.string().description('模型ID（留空使用提供方默认模型）'),
+  fallbacks: Schema.array(providerRoute).description('降级链（留空使用默认降级链）'),
+  cost: Schema.natural().default(1).description('每生成一张图片消耗的额度'),
+  imageMode: Schema.union([
+    Schema.const('required' as const).description('必需'),
+    Schema.const('optional' as const).description('可选，没有图片时直接按 prompt 生成'),
+    Schema.const('forbidden' as const).description('不接受，始终按 prompt 生成'),
+  ]).default('required').description('输入图片'),
+  minImages: Schema.natural().default(1).description('最少输入图片数'),
+  maxImages: Schema.natural().default(1).description('最多输入图片数，超出时只取前面的图片'),
+  params: Schema.array(StyleParam).description('模板参数'),
+  translations: Schema.array(styleTranslation).description('其他语言的命令描述与 prompt，按用户语言选用'),
+  aspectRatio: Schema.string().description('默认宽高比，如 16:9、9:16、1:1（留空由模型决定）'),
+  imageSize: Schema.string().description('默认输出分辨率，如 1K、2K、4K（仅部分模型支持）'),
+  seed: Schema.number().description('默认随机种子（仅部分模型支持）'),
+  temperature: Schema.number().min(0).max(2).description('默认采样温度（仅部分模型支持）'),
+  negativePrompt: Schema.string().description('不希望出现在结果中的内容'),
+  ...accessFields
+})
+
+export const Config: Schema<Config> = Schema.intersect([
+  Schema.object({
+    apiKey: Schema.string().role('secret').description('云雾API密钥（配置了密钥池时可留空）'),
+    apiBaseUrl: Schema.string().default('https://yunwu.ai').description('API基础地址'),
+    apiTimeout: Schema.number().default(120).description('API请求超时时间（秒）'),
+    commandTimeout: Schema.number().default(180).description('命令执行总超时时间（秒），超出时仍在排队或生成的任务转入后台'),
+    backgroundTimeout: Schema.natural().default(30).description('后台任务的总超时时间（分钟，0 为不转入后台，超时直接中止）'),
+    resumeJobs: Schema.boolean().default(true).description('插件重启后恢复未完成的任务，关闭时通知用户任务已中断并退还额度'),
+
+    // 默认设置
+    defaultNumImages: Schema.number()
+      .default(1)
+      .min(1)
+      .max(4)
+      .description('默认生成图片数量')
+  }),
+
+  // 密钥池
+  Schema.object({
+    apiKeys: Schema.array(apiKeyConfig).default([]).description('额外的API密钥，与上面的密钥一起轮换使用'),
+    keyStrategy: Schema.union([
+      Schema.const('round-robin' as const).description('轮询'),
+      Schema.const('weighted' as const).description('按权重'),
+    ]).default('round-robin').description('密钥分配方式'),
+    keyCooldown: Schema.number().default(10).description('认证失败或额度不足的密钥暂停使用的时间（分钟）'),
+    keyAdminAuthority: Schema.natural().default(3).description('查看密钥状态所需权限等级')
+  }).description('密钥池'),
+
+  // 输入图片
+  Schema.object({
+    maxInputSize: Schema.number().min(0).default(10).description('输入图片最大文件大小（MB，0 为不限），超出时拒绝'),
+    maxInputEdge: Schema.natural().default(2048).description('输入图片最长边（像素，0 为不限），超出时自动等比缩小')
+  }).description('输入图片设置'),
+
+  // 并发与排队
+  Schema.object({
+    maxConcurrency: Schema.natural().default(3).description('全局同时进行的生成任务上限（0 为不限）'),
+    maxGuildConcurrency: Schema.natural().default(1).description('单个群组同时进行的生成任务上限（0 为不限），超出时按顺序排队'),
+    batchMaxItems: Schema.natural().min(2).default(9).description('风格对比与批量处理一次最多生成的图片数')
+  }).description('并发设置'),
+
+  // 图像服务提供方配置
+  Schema.object({
+    defaultProvider: providerName.default('gemini').description('默认提供方'),
+    modelId: Schema.string().default('gemini-2.5-flash-image').description('Gemini 图像生成模型ID'),
+    falModelId: Schema.string().default('nano-banana/edit').description('fal-ai 模型路径'),
+    openaiModelId: Schema.string().default('gpt-image-1').description('OpenAI 兼容图像编辑模型ID'),
+    pollInterval: Schema.number().default(3).description('fal-ai 队列轮询间隔（秒）'),
+    maxPollAttempts: Schema.number().default(40).description('fal-ai 队列最大轮询次数'),
+    fallbacks: Schema.array(providerRoute).default([]).description('默认降级链：主提供方报错或超时后依次尝试')
+  }).description('提供方设置'),
+
+  // 本地模拟提供方配置
+  Schema.object({
+    mockLatency: Schema.number().default(1).description('模拟的响应延迟（秒）'),
+    mockScenario: Schema.union([
+      Schema.const('success' as const).description('正常生成占位图片'),
+      Schema.const('safety' as const).description('生成内容未通过安全审核'),
+      Schema.const('prompt_blocked' as const).description('提示词被拦截'),
+      Schema.const('empty' as const).description('空响应'),
+      Schema.const('text_only' as const).description('只返回文字'),
+      Schema.const('quota' as const).description('限流（429）'),
+      Schema.const('upstream' as const).description('上游服务错误（500）'),
+      Schema.const('timeout' as const).description('请求超时'),
+    ]).default('success').description('默认的模拟场景，prompt 中的 [mock:场景] 优先')
+  }).description('本地模拟'),
+
+  // 重试与熔断配置
+  Schema.object({
+    maxRetries: Schema.natural().default(2).description('限流、上游 5xx 与网络超时的最大重试次数（0 为不重试）'),
+    retryBaseDelay: Schema.number().default(1).description('首次重试等待时间（秒），之后按指数增长并附加随机抖动'),
+    retryMaxDelay: Schema.number().default(30).description('单次重试等待上限（秒），Retry-After 超出时不再重试'),
+    circuitThreshold: Schema.natural().default(5).description('提供方连续失败多少次后暂停调用（0 为不熔断）'),
+    circuitCooldown: Schema.number().default(60).description('暂停调用的时间（秒）')
+  }).description('重试与熔断'),
+
+  // 额度配置
+  Schema.object({
+    quotaEnabled: Schema.boolean().default(false).description('是否启用额度限制'),
+    userDailyQuota: Schema.natural().default(20).description('每个用户每日额度（0 为不限）'),
+    userMonthlyQuota: Schema.natural().default(0).description('每个用户每月额度（0 为不限）'),
+    guildDailyQuota: Schema.natural().default(0).description('每个群组每日额度（0 为不限）'),
+    guildMonthlyQuota: Schema.natural().default(0).description('每个群组每月额度（0 为不限）'),
+    customPromptCost: Schema.natural().default(1).description('生成图像、合并命令每张图片消耗的额度'),
+    assistCost: Schema.natural().default(1).description('每次调用文字模型（描述图片、优化 prompt）消耗的额度'),
+    quotaAdminAuthority: Schema.natural().default(3).description('额度管理命令所需权限等级')
+  }).description('额度设置'),
+
+  // 内置命令的使用权限，风格命令在各自的风格中配置
+  Schema.object({
+    customPromptAccess: AccessConfig.description('「生成图像」使用权限'),
+    mergeAccess: AccessConfig.description('「合并」使用权限'),
+    textToImageAccess: AccessConfig.description('「文生图」使用权限'),
+    describeAccess: AccessConfig.description('「描述图片」使用权限')
+  }).description('命令权限'),
+
+  // 提示词助手配置
+  Schema.object({
+    promptAssist: Schema.boolean().default(false).description('「生成图像」「合并」提交前先用文字模型扩写或翻译 prompt，命令加上 --raw 时跳过'),
+    assistModel: Schema.string().default('gemini-2.5-flash').description('文字模型ID，与 Gemini 图像模型使用相同的API地址与密钥'),
+    assistInstruction: Schema.string().role('textarea', { rows: 4 }).default('')
+      .description('优化 prompt 时的系统指令，留空时按会话语言使用内置指令'),
+    describeInstruction: Schema.string().role('textarea', { rows: 4 }).default('')
+      .description('「描述图片」的系统指令，留空时按会话语言使用内置指令'),
+    suggestInstruction: Schema.string().role('textarea', { rows: 4 }).default('')
+      .description('「描述图片 -p」生成提示词时的系统指令，留空时按会话语言使用内置指令')
+  }).description('提示词助手'),
+
+  // 结果缓存
+  Schema.object({
+    cacheEnabled: Schema.boolean().default(false).description('相同的输入图片、prompt、模型与生成参数直接复用之前的结果，不再调用API'),
+    cacheTtl: Schema.natural().default(1440).description('缓存有效期（分钟）'),
+    cacheMaxEntries: Schema.natural().default(200).description('最多缓存的结果数，超出时淘汰最久未使用的')
+  }).description('结果缓存'),
+
+  // 多轮编辑
+  Schema.object({
+    continueEditing: Schema.boolean().default(true).description('回复机器人生成的图片并发送文字时，在该图片基础上继续编辑'),
+    conversationTrigger: Schema.union([
+      Schema.const('mention' as const).description('需要 @机器人 或称呼机器人昵称（私聊不需要）'),
+      Schema.const('any' as const).description('任意文字回复'),
+    ]).default('mention').description('群聊中哪些回复会继续编辑，避免普通的聊天回复也开始生成并消耗额度'),
+    conversationMaxTurns: Schema.natural().default(5).description('单个对话最多编辑轮数（0 为不限）'),
+    conversationTimeout: Schema.natural().default(30).description('对话过期时间（分钟，0 为不过期）')
+  }).description('多轮编辑'),
+
+  // 图片存储（历史记录）
+  Schema.object({
+    storageBackend: Schema.union([
+      Schema.const('local' as const).description('本地文件'),
+      Schema.const('assets' as const).description('assets 资源服务'),
+    ]).default('local').description('历史记录中输入图片与生成结果的存储方式'),
+    storagePath: Schema.string().default('data/yunwu-figurine').description('本地存储目录（相对于 Koishi 根目录）')
+  }).description('存储设置'),
+
+  // 结果图片的后处理与发送
+  Schema.object({
+    outputFormat: Schema.union([
+      Schema.const('original' as const).description('保持原格式'),
+      Schema.const('png' as const).description('PNG'),
+      Schema.const('jpeg' as const).description('JPEG'),
+      Schema.const('webp' as const).description('WebP'),
+    ]).default('original').description('结果图片的输出格式'),
+    outputQuality: Schema.natural().min(1).max(100).default(90).description('JPEG / WebP 的压缩质量'),
+    maxOutputEdge: Schema.natural().default(0).description('结果图片最长边（像素，0 为不限），超出时等比缩小'),
+    stripMetadata: Schema.boolean().default(false).description('去除 EXIF 等元数据'),
+    watermarkText: Schema.string().description('文字水印（留空不添加）'),
+    watermarkImage: Schema.string().description('图片水印的本地路径（相对于 Koishi 根目录）或 URL，设置后代替文字水印'),
+    watermarkPosition: Schema.union([
+      Schema.const('top-left' as const).description('左上'),
+      Schema.const('top-right' as const).description('右上'),
+      Schema.const('bottom-left' as const).description('左下'),
+      Schema.const('bottom-right' as const).description('右下'),
+      Schema.const('center' as const).description('居中'),
+    ]).default('bottom-right').description('水印位置'),
+    watermarkOpacity: Schema.number().min(0).max(1).step(0.05).default(0.6).description('水印不透明度'),
+    watermarkScale: Schema.number().min(0.01).max(1).step(0.01).default(0.2).description('图片水印宽度占结果图片宽度的比例'),
+    outputHosting: Schema.union([
+      Schema.const('inline' as const).description('直接发送图片数据'),
+      Schema.const('assets' as const).description('上传到 assets 资源服务，发送链接'),
+      Schema.const('local' as const).description('由本插件的 HTTP 路由提供，发送链接（需要 server 服务）'),
+    ]).default('inline').description('结果图片的发送方式，上传失败时改为直接发送'),
+    outputPath: Schema.string().default('/yunwu-figurine/outputs').description('本地发送时的路由路径'),
+    outputBaseUrl: Schema.string().description('本地发送时链接的公网地址（留空使用 server 服务的 selfUrl）'),
+    outputRetention: Schema.natural().default(72).description('本地发送的图片保留时间（小时，0 为不清理）')
+  }).description('输出设置'),
+
+  // 用量统计配置
+  Schema.object({
+    statsAuthority: Schema.natural().default(3).description('用量统计命令所需权限等级'),
+    modelPrices: Schema.array(modelPrice).default([
+      { model: 'gemini-2.5-flash-image', inputPrice: 0.3, outputPrice: 30, imagePrice: 0 }
+    ]).description('模型单价，用于估算费用，未配置的模型不计费用')
+  }).description('用量统计'),
+
+  // HTTP 接口配置
+  Schema.object({
+    apiEnabled: Schema.boolean().default(false).description('是否启用 HTTP 接口（需要 server 服务）'),
+    apiPath: Schema.string().default('/yunwu-figurine').description('接口路径前缀'),
+    apiTokens: Schema.array(apiTokenConfig).default([]).description('访问令牌，请求时通过 Authorization: Bearer <令牌> 提交')
+  }).description('HTTP 接口'),
+
+  // 自定义风格命令配置
+  Schema.object({
+    styleAdminAuthority: Schema.natural().default(3).description('风格管理命令所需权限等级'),
+    styles: Schema.array(StyleConfig).default([
+      {
+        commandName: '变手办',
+        commandDescription: '转换为手办风格',
+        prompt: '将这张照片变成手办模型。在它后面放置一个印有图像主体的盒子，桌子上有一台电脑显示Blender建模过程。在盒子前面添加一个圆形塑料底座，角色手办站在上面。如果可能的话，将场景设置在室内',
+        enabled: true,
+        translations: [{
+          locale: 'en-US',
+          description: 'Turn the picture into a figurine',
+          prompt: 'Turn this photo into a figurine. Behind it, place a box printed with the subject of the image, and a computer on the desk showing the Blender modeling process. In front of the box, add a round plastic base with the figurine standing on it. If possible, set the scene indoors'
+        }]
+      },
+      {
+        commandName: '变真人',
+        commandDescription: '转换为真人风格',
+        prompt: '生成一个亚洲真人女孩cosplay这张插画的写实照片，照片背景设置在普通街道',
+        enabled: true,
+        translations: [{
+          locale: 'en-US',
+          description: 'Turn the picture into a real person',
+          prompt: 'Generate a realistic photo of an Asian girl cosplaying this illustration, set on an ordinary street'
+        }]
+      },
+      {
+        commandName: '角色设定',
+        commandDescription: '生成人物角色设定',
+        prompt: '为我生成人物的角色设定（Character Design）, 比例设定（不同身高对比、头身比等）, 三视图（正面、侧面、背面）, 表情设定（Expression Sheet） , 动作设定（Pose Sheet） → 各种常见姿势, 服装设定（Costume Design）',
+        enabled: true,
+        translations: [{
+          locale: 'en-US',
+          description: 'Generate a character design sheet',
+          prompt: 'Generate a character design sheet for this character: proportions (height comparison, head-to-body ratio), three views (front, side, back), an expression sheet, a pose sheet with common poses, and a costume design'
+        }]
+      },
+      {
+        commandName: '道具设定',
+        commandDescription: '生成游戏道具设定（武器、载具等）',
+        prompt: '为我生成游戏道具的完整设定（Prop/Item Design），包含以下内容：功能结构图（Functional Components）、状态变化展示（State Variations）、细节特写（Detail Close-ups）',
+        enabled: true,
+        translations: [{
+          locale: 'en-US',
+          description: 'Generate a game prop design sheet (weapons, vehicles, etc.)',
+          prompt: 'Generate a complete prop/item design sheet for this game item, including functional components, state variations and detail close-ups'
+        }]
+      },
+      {
+        commandName: '二次元',
+        commandDescription: '转换为新海诚风格',
+        prompt: '将这张图片变成新海诚风格, 日式赛璐珞的图片',
+        enabled: true,
+        translations: [{
+          locale: 'en-US',
+          description: 'Turn the picture into Makoto Shinkai style',
+          prompt: 'Turn this picture into a Makoto Shinkai style Japanese cel-shaded illustration'
+        }]
+      }
+    ]).description('初始风格命令配置，首次启动时导入数据库，之后通过「图像处理.风格」系列命令管理')
+  })
+])
@@ -0,0 +1,78 @@
+import { GenerationParams, StyleConfig } from './config'
+
+// 对话中的一轮：用户的 prompt 与输入图片，以及模型输出的图片（均为存储引用）
+export interface ConversationTurn {
+  prompt: string
+  inputs: string[]
+  outputs: string[]
+}
+
+export interface Conversation {
+  platform: string
+  userId: string
+  label: string
+  style?: StyleConfig
+  params?: GenerationParams
+  turns: ConversationTurn[]
+  updatedAt: number
+}
+
+interface Binding {
+  conversation: Conversation
+  output: number        // 该消息对应的输出图片序号
+}
+
+export interface ConversationOptions {
+  maxTurns: number      // 最大轮数，0 表示不限
+  timeout: number       // 过期时间（分钟），0 表示不过期
+}
+
+// 记录机器人发出的结果消息与对话的对应关系，用户回复这些消息即可继续编辑
+export function createConversations(options: ConversationOptions) {
+  const bindings = new Map<string, Binding>()   // `${platform}:${messageId}` -> binding
+
+  function isExpired(conversation: Conversation, now = Date.now()) {
+    return options.timeout > 0 && now - conversation.updatedAt > options.timeout * 60000
+  }
+
+  function bind(conversation: Conversation, messageIds: string[]) {
+    messageIds.forEach((messageId, index) => {
+      bindings.set(`${conversation.platform}:${messageId}`, {
+        conversation,
+        output: Math.min(index, conversation.turns[conversation.turns.length - 1].outputs.length - 1),
+      })
+    })
+  }
+
+  // 查找回复的消息对应的对话，返回截止到该结果的对话分支
+  function find(platform: string, messageId: string): Conversation | undefined {
+    const key = `${platform}:${messageId}`
+    const binding = bindings.get(key)
+    if (!binding) return
+    if (isExpired(binding.conversation)) {
+      bindings.delete(key)
+      return
+    }
+
+    const { conversation, output } = binding
+    const turns = conversation.turns.map(turn => ({ ...turn }))
+    const last = turns[turns.length - 1]
+    last.outputs = [last.outputs[output]]
+    return { ...conversation, turns }
+  }
+
+  function isExhausted(conversation: Conversation) {
+    return options.maxTurns > 0 && conversation.turns.length >= options.maxTurns
+  }
+
+  function prune() {
+    const now = Date.now()
+    for (const [key, binding] of bindings) {
+      if (isExpired(binding.conversation, now)) bindings.delete(key)
+    }
+  }
+
+  return { bind, find, isExhausted, prune }
+}
+
+export type Conversations = ReturnType<typeof createConversations>
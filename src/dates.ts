@@ -0,0 +1,20 @@
+function pad(n: number) {
+  return n.toString().padStart(2, '0')
+}
+
+// 本地日期 YYYY-MM，额度按本地月份重置
+export function monthOf(date = new Date()) {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}`
+}
+
+// 本地日期 YYYY-MM-DD，额度、密钥的每日次数与用量统计都按本地日期划分
+export function dayOf(date = new Date()) {
+  return `${monthOf(date)}-${pad(date.getDate())}`
+}
+
+// 距离本地次日零点的毫秒数
+export function untilTomorrow() {
+  const tomorrow = new Date()
+  tomorrow.setHours(24, 0, 0, 0)
+  return tomorrow.getTime() - Date.now()
+}
@@ -0,0 +1,69 @@
+import sharp from 'sharp'
+import { renderSvg, svgText } from './svg'
+
+export interface GridCell {
+  label: string         // 失败的单元格由调用方在标签中注明
+  image?: Buffer        // 为空时显示为失败的占位格
+}
+
+export interface GridOptions {
+  cellSize: number      // 单元格边长（像素）
+  labelHeight: number   // 标签栏高度（像素）
+  gap: number           // 单元格间距（像素）
+}
+
+const defaultOptions: GridOptions = {
+  cellSize: 512,
+  labelHeight: 48,
+  gap: 8,
+}
+
+// 标签栏：白底居中文字，中文标签需要系统中安装中文字体
+function renderLabel(text: string, width: number, height: number) {
+  const fontSize = Math.round(height * 0.5)
+  return renderSvg(width, height, [
+    '<rect width="100%" height="100%" fill="#ffffff"/>',
+    svgText(text, { x: '50%', y: '50%', 'font-size': fontSize, fill: '#333333', 'text-anchor': 'middle', 'dominant-baseline': 'central' }),
+  ])
+}
+
+// 失败的单元格：浅灰底
+async function renderPlaceholder(size: number) {
+  return sharp({
+    create: { width: size, height: size, channels: 3, background: '#e0e0e0' },
+  }).png().toBuffer()
+}
+
+// 把多张结果拼成带标签的对比图，返回 JPEG
+export async function composeGrid(cells: GridCell[], options: Partial<GridOptions> = {}) {
+  const { cellSize, labelHeight, gap } = { ...defaultOptions, ...options }
+  const columns = Math.ceil(Math.sqrt(cells.length))
+  const rows = Math.ceil(cells.length / columns)
+  const width = columns * cellSize + (columns + 1) * gap
+  const height = rows * (cellSize + labelHeight) + (rows + 1) * gap
+
+  const layers: sharp.OverlayOptions[] = []
+  for (const [index, cell] of cells.entries()) {
+    const left = gap + (index % columns) * (cellSize + gap)
+    const top = gap + Math.floor(index / columns) * (cellSize + labelHeight + gap)
+
+    let input: Buffer
+    try {
+      input = cell.image
+        ? await sharp(cell.image)
+          .resize({ width: cellSize, height: cellSize, fit: 'contain', background: '#ffffff' })
+          .png()
+          .toBuffer()
+        : await renderPlaceholder(cellSize)
+    } catch {
+      input = await renderPlaceholder(cellSize)
+    }
+
+    layers.push({ input, left, top })
+    layers.push({ input: renderLabel(cell.label, cellSize, labelHeight), left, top: top + cellSize })
+  }
+
+  return sharp({
+    create: { width, height, channels: 3, background: '#f5f5f5' },
+  }).composite(layers).jpeg({ quality: 90 }).toBuffer()
+}
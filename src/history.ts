@@ -0,0 +1,80 @@
+import { Context, Session } from 'koishi'
+import { GenerationParams } from './config'
+
+declare module 'koishi' {
+  interface Tables {
+    yunwu_history: YunwuHistory
+  }
+}
+
+export type HistoryStatus = 'success' | 'partial' | 'failed' | 'timeout' | 'cancelled'
+
+export interface YunwuHistory {
+  id: number
+  platform: string
+  userId: string
+  guildId: string
+  channelId: string
+  style: string         // 风格命令名，自定义 prompt 时为任务名称
+  prompt: string
+  sources: string[]     // 输入图片的存储引用
+  outputs: string[]     // 生成结果的存储引用
+  provider: string
+  model: string
+  numImages: number
+  params: GenerationParams
+  duration: number      // 毫秒
+  status: HistoryStatus
+  createdAt: Date
+}
+
+export function createHistory(ctx: Context) {
+  ctx.model.extend('yunwu_history', {
+    id: 'unsigned',
+    platform: 'string',
+    userId: 'string',
+    guildId: 'string',
+    channelId: 'string',
+    style: 'string',
+    prompt: 'text',
+    sources: 'list',
+    outputs: 'list',
+    provider: 'string',
+    model: 'string',
+    numImages: 'unsigned',
+    params: 'json',
+    duration: 'unsigned',
+    status: 'string',
+    createdAt: 'timestamp',
+  }, {
+    autoInc: true,
+  })
+
+  async function record(data: Omit<YunwuHistory, 'id' | 'createdAt'>) {
+    return ctx.database.create('yunwu_history', { ...data, createdAt: new Date() })
+  }
+
+  async function list(session: Session, limit: number, offset = 0) {
+    return ctx.database
+      .select('yunwu_history')
+      .where({ platform: session.platform, userId: session.userId })
+      .orderBy('id', 'desc')
+      .limit(limit)
+      .offset(offset)
+      .execute()
+  }
+
+  // 只允许访问自己的记录
+  async function get(session: Session, id: number) {
+    const [row] = await ctx.database.get('yunwu_history', {
+      id,
+      platform: session.platform,
+      userId: session.userId,
+    })
+    return row
+  }
+
+  return { record, list, get }
+}
+
+export type History = ReturnType<typeof createHistory>
@@ -0,0 +1,80 @@
+import sharp from 'sharp'
+import { InputImage } from './providers'
+
+// 各提供方都接受的输入格式，其余格式统一转码
+const acceptedTypes = ['image/png', 'image/jpeg', 'image/webp']
+
+// 输入图片不符合要求，key 与 params 对应本地化文本 yunwu-figurine.image.*
+export class ImageInputError extends Error {
+  constructor(public key: string, public params: (string | number)[] = []) {
+    super(key)
+    this.name = 'ImageInputError'
+  }
+}
+
+export interface NormalizeOptions {
+  maxSize: number     // 最大文件大小（MB），0 表示不限
+  maxEdge: number     // 最长边（像素），超出时等比缩小，0 表示不限
+}
+
+// 根据文件头识别图片类型，无法识别时返回 undefined
+export function sniffMimeType(buffer: Buffer): string | undefined {
+  const ascii = (start: number, end: number) => buffer.toString('latin1', start, end)
+
+  if (buffer.length >= 8 && buffer.readUInt32BE(0) === 0x89504e47) return 'image/png'
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'image/jpeg'
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') return 'image/gif'
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp'
+  if (ascii(0, 2) === 'BM') return 'image/bmp'
+  if (ascii(0, 4) === 'II*\0' || ascii(0, 4) === 'MM\0*') return 'image/tiff'
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12)
+    if (brand === 'avif' || brand === 'avis') return 'image/avif'
+    if (['heic', 'heix', 'hevc', 'hevx', 'mif1', 'msf1'].includes(brand)) return 'image/heic'
+  }
+}
+
+// 校验并规范化输入图片：拒绝非图片与超大文件，动图取第一帧，超出最长边时缩小，转码为提供方接受的格式
+export async function normalizeImage(buffer: Buffer, options: NormalizeOptions): Promise<InputImage> {
+  const mimeType = sniffMimeType(buffer)
+  if (!mimeType) {
+    throw new ImageInputError('not-image')
+  }
+
+  if (options.maxSize > 0 && buffer.length > options.maxSize * 1024 * 1024) {
+    const size = (buffer.length / 1024 / 1024).toFixed(1)
+    throw new ImageInputError('too-large', [size, options.maxSize])
+  }
+
+  let image: sharp.Sharp
+  let metadata: sharp.Metadata
+  try {
+    // 只读取第一帧，GIF 与动态 WebP 即取首帧
+    image = sharp(buffer, { pages: 1, animated: false })
+    metadata = await image.metadata()
+  } catch {
+    throw new ImageInputError('unreadable')
+  }
+
+  const width = metadata.width || 0
+  const height = metadata.height || 0
+  const animated = (metadata.pages || 1) > 1
+  const oversized = options.maxEdge > 0 && Math.max(width, height) > options.maxEdge
+
+  // 已是可接受的静态图且尺寸合适，原样使用
+  if (acceptedTypes.includes(mimeType) && !animated && !oversized) {
+    return { mimeType, data: buffer.toString('base64') }
+  }
+
+  if (oversized) {
+    image = image.resize({ width: options.maxEdge, height: options.maxEdge, fit: 'inside', withoutEnlargement: true })
+  }
+
+  // 按 EXIF 方向旋转后输出，带透明通道的保留为 PNG，其余转为 JPEG
+  image = image.rotate()
+  const output = metadata.hasAlpha
+    ? { mimeType: 'image/png', data: await image.png().toBuffer() }
+    : { mimeType: 'image/jpeg', data: await image.jpeg({ quality: 90 }).toBuffer() }
+
+  return { mimeType: output.mimeType, data: output.data.toString('base64') }
+}
@@ -1,636 +1,2149 @@
-import { Context, Schema, h, Session } from 'koishi'
+import { Bot, Context, h, Session, Universal } from 'koishi'
+import type {} from '@koishijs/plugin-server'
+import { readFile } from 'fs/promises'
+import { AccessConfig, ApiTokenConfig, Config, GenerationParams, ImageMode, imageModes, ProviderName, ProviderRoute, StyleConfig } from './config'
+import { Conversation, ConversationTurn, createConversations } from './conversation'
+import { ImageInputError, normalizeImage } from './image'
+import { createInputResolver, InputLimits, ResolvedInput } from './input'
+import { createHistory, HistoryStatus } from './history'
+import { CallRecord, CircuitOpenError, createCircuitBreaker, createProviders, editWithFallback, HistoryTurn, InputImage, ProviderError, Refusal, RefusalCategory, resolveRoutes, validateParams } from './providers'
+import { createQuota, formatBalance, QuotaCharge } from './quota'
+import { createScheduler, JobCancelledError, JobTimeoutError } from './scheduler'
+import { createStorage } from './storage'
+import { createKeyPool } from './keys'
+import { CommandAccess, createAccessControl } from './access'
+import { createResultCache, GeneratedResult, Participant } from './cache'
+import { composeGrid, GridCell } from './grid'
+import { createStyleStore, localizeStyle, StyleImportError } from './styles'
+import { ApiJob, ApiOutput, createApiJobs, createApiSession, findToken, readResult } from './api'
+import { fetchPublic, isPublicUrl, PrivateAddressError } from './network'
+import { TaskSession } from './session'
+import { createJobStore, TaskAction, YunwuJob } from './jobs'
+import { createUsage, UsageCaller, UsageDimension, UsageSummary } from './usage'
+import { describeParams, renderPrompt, reservedParams, TemplateError } from './template'
+import { defaultStyleDescriptions, generationOptions, locales } from './locales'
+import { createAssistant } from './assist'
+import { createOutputs } from './output'
 
 export const name = 'aka-yunwu-figurine'
 
-export interface StyleConfig {
-  commandName: string
-  commandDescription: string
-  prompt: string
-  enabled: boolean
+export const inject = {
+  required: ['database'],
+  optional: ['assets', 'server']
 }
 
-export const Config = Schema.intersect([
-  Schema.object({
-    apiKey: Schema.string().description('云雾API密钥').required(),
-    modelId: Schema.string().default('gemini-2.5-flash-image').description('图像生成模型ID'),
-    apiTimeout: Schema.number().default(120).description('API请求超时时间（秒）'),
-    commandTimeout: Schema.number().default(180).description('命令执行总超时时间（秒）'),
-    
-    // 默认设置
-    defaultNumImages: Schema.number()
-      .default(1)
-      .min(1)
-      .max(4)
-      .description('默认生成图片数量')
-  }),
-  
-  // 自定义风格命令配置
-  Schema.object({
-    styles: Schema.array(Schema.object({
-      commandName: Schema.string().required().description('命令名称（不含前缀斜杠）'),
-      commandDescription: Schema.string().required().description('命令描述'),
-      prompt: Schema.string().role('textarea', { rows: 4 }).required().description('生成 prompt'),
-      enabled: Schema.boolean().default(true).description('是否启用此命令')
-    })).role('table').default([
-      {
-        commandName: '变手办',
-        commandDescription: '转换为手办风格',
-        prompt: '将这张照片变成手办模型。在它后面放置一个印有图像主体的盒子，桌子上有一台电脑显示Blender建模过程。在盒子前面添加一个圆形塑料底座，角色手办站在上面。如果可能的话，将场景设置在室内',
-        enabled: true
-      },
-      {
-        commandName: '变真人',
-        commandDescription: '转换为真人风格',
-        prompt: '生成一个亚洲真人女孩cosplay这张插画的写实照片，照片背景设置在普通街道',
-        enabled: true
-      },
-      {
-        commandName: '角色设定',
-        commandDescription: '生成人物角色设定',
-        prompt: '为我生成人物的角色设定（Character Design）, 比例设定（不同身高对比、头身比等）, 三视图（正面、侧面、背面）, 表情设定（Expression Sheet） , 动作设定（Pose Sheet） → 各种常见姿势, 服装设定（Costume Design）',
-        enabled: true
-      },
-      {
-        commandName: '道具设定',
-        commandDescription: '生成游戏道具设定（武器、载具等）',
-        prompt: '为我生成游戏道具的完整设定（Prop/Item Design），包含以下内容：功能结构图（Functional Components）、状态变化展示（State Variations）、细节特写（Detail Close-ups）',
-        enabled: true
-      },
-      {
-        commandName: '二次元',
-        commandDescription: '转换为新海诚风格',
-        prompt: '将这张图片变成新海诚风格, 日式赛璐珞的图片',
-        enabled: true
-      }
-    ]).description('自定义风格命令配置')
-  })
-])
+export * from './config'
 
-export function apply(ctx: Context, config: any) {
+export function apply(ctx: Context, config: Config) {
   const logger = ctx.logger('aka-yunwu-figurine')
-  const activeTasks = new Map<string, string>()  // userId -> requestId
+  for (const [locale, dict] of Object.entries(locales)) {
+    ctx.i18n.define(locale, dict)
+  }
+  const providers = createProviders(ctx, config, logger)
+  const keys = createKeyPool(config, logger)
+  const assistant = createAssistant(ctx, config, logger, keys)
+  const accessControl = createAccessControl()
+  const cache = createResultCache({
+    ttl: config.cacheTtl * 60000,
+    maxEntries: config.cacheMaxEntries,
+    onHandOff: (from, to) => scheduler.transfer(from, to)
+  })
+  const breaker = createCircuitBreaker({
+    threshold: config.circuitThreshold,
+    cooldown: config.circuitCooldown * 1000
+  }, logger)
+  const quota = createQuota(ctx, config)
+  const history = createHistory(ctx)
+  const jobStore = createJobStore(ctx)
+  const usage = createUsage(ctx, config)
+  const storage = createStorage(ctx, config, logger)
+  const output = createOutputs(ctx, config, logger)
+  const inputs = createInputResolver(logger)
+  const conversations = createConversations({
+    maxTurns: config.conversationMaxTurns,
+    timeout: config.conversationTimeout
+  })
+  const scheduler = createScheduler({
+    maxConcurrency: config.maxConcurrency,
+    maxGuildConcurrency: config.maxGuildConcurrency
+  })
+  const apiJobs = createApiJobs()
 
-  // 下载图片并转换为 Base64
-  async function downloadImageAsBase64(url: string): Promise<{ data: string, mimeType: string }> {
+  // 读取图片的命令自行解析引用消息，不让 Koishi 把引用内容拼接到命令参数中
+  const inputCommand = { captureQuote: false }
+
+  // 下载图片，校验并规范化后转换为 Base64；用户提供的链接只连接公网地址
+  async function downloadImageAsBase64(url: string, signal?: AbortSignal, publicOnly = false): Promise<InputImage> {
+    let buffer: Buffer
     try {
-      const response = await ctx.http.get(url, { 
-        responseType: 'arraybuffer',
-        timeout: config.apiTimeout * 1000
-      })
-      
-      const buffer = Buffer.from(response)
-      const base64 = buffer.toString('base64')
-      
-      // 检测 MIME 类型
-      let mimeType = 'image/jpeg'
-      if (url.toLowerCase().endsWith('.png')) {
-        mimeType = 'image/png'
-      } else if (url.toLowerCase().endsWith('.webp')) {
-        mimeType = 'image/webp'
-      } else if (url.toLowerCase().endsWith('.gif')) {
-        mimeType = 'image/gif'
-      }
-      
-      logger.debug('图片下载并转换为Base64', { url, mimeType, size: base64.length })
-      return { data: base64, mimeType }
+      buffer = publicOnly
+        ? await fetchPublic(url, { timeout: config.apiTimeout * 1000, signal })
+        : Buffer.from(await ctx.http.get(url, {
+          responseType: 'arraybuffer',
+          timeout: config.apiTimeout * 1000,
+          signal
+        }))
     } catch (error) {
-      logger.error('下载图片失败', { url, error })
-      throw new Error('下载图片失败，请检查图片链接是否有效')
-    }
-  }
-
-  // 获取图片URL（三种方式）
-  async function getImageUrl(img: any, session: Session): Promise<string | null> {
-    let url: string | null = null
-    
-    // 方法1：从命令参数获取图片
-    if (img) {
-      url = img.attrs?.src || null
-      if (url) {
-        logger.debug('从命令参数获取图片', { url })
-        return url
-      }
-    }
-    
-    // 方法2：从引用消息获取图片
-    let elements = session.quote?.elements
-    if (elements) {
-      const images = h.select(elements, 'img')
-      if (images.length > 0) {
-        url = images[0].attrs.src
-        logger.debug('从引用消息获取图片', { url })
-        return url
+      if (signal?.aborted) throw signal.reason
+      if (error instanceof PrivateAddressError) {
+        logger.warn('图片链接指向本机或内网地址，已拒绝', { url, host: error.host })
+        throw new ImageInputError('private-url')
       }
+      logger.error('下载图片失败', { url, error })
+      throw new ImageInputError('download-failed')
     }
     
-    // 方法3：等待用户发送图片
-    await session.send('请在30秒内发送一张图片')
-    const msg = await session.prompt(30000)
-    
-    if (!msg) {
-      await session.send('等待超时')
-      return null
-    }
-    
-    // 解析用户发送的消息
-    elements = h.parse(msg)
-    const images = h.select(elements, 'img')
-    
-    if (images.length === 0) {
-      await session.send('未检测到图片，请重试')
-      return null
-    }
+    const image = await normalizeImage(buffer, {
+      maxSize: config.maxInputSize,
+      maxEdge: config.maxInputEdge
+    })
     
-    url = images[0].attrs.src
-    logger.debug('从用户输入获取图片', { url })
-    return url
+    logger.debug('图片下载并转换为Base64', { url, mimeType: image.mimeType, size: image.data.length })
+    return image
   }
 
-  // 调用 Gemini 图像编辑 API
-  async function callGeminiImageEdit(prompt: string, imageUrls: string | string[], numImages: number = 1) {
-    const urls = Array.isArray(imageUrls) ? imageUrls : [imageUrls]
-    
+  // 下载所有输入图片并转换为 Base64，links 为其中用户提供的链接
+  async function downloadImages(urls: string[], signal?: AbortSignal, links: string[] = []) {
     logger.debug('开始下载图片并转换为Base64', { urls })
     
-    // 下载所有图片并转换为 Base64
-    const imageParts = []
+    const images = []
     for (const url of urls) {
-      const { data, mimeType } = await downloadImageAsBase64(url)
-      imageParts.push({
-        inline_data: {
-          mime_type: mimeType,
-          data: data
-        }
-      })
+      // data URL 不需要连接
+      images.push(await downloadImageAsBase64(url, signal, links.includes(url) && !url.startsWith('data:')))
     }
-    
-    // 构建 Gemini API 请求体
-    const requestData = {
-      contents: [
-        {
-          role: "user",
-          parts: [
-            { text: prompt },
-            ...imageParts
-          ]
-        }
-      ],
-      generationConfig: {
-        responseModalities: ["IMAGE"]
-      }
-    }
-    
-    logger.debug('调用 Gemini 图像编辑 API', { prompt, imageCount: urls.length, numImages })
-    
-    try {
-      const response = await ctx.http.post(
-        `https://yunwu.ai/v1beta/models/${config.modelId}:generateContent`,
-        requestData,
-        {
-          headers: {
-            'Content-Type': 'application/json'
-          },
-          params: {
-            key: config.apiKey
-          },
-          timeout: config.apiTimeout * 1000
-        }
-      )
-      
-      logger.success('Gemini 图像编辑 API 调用成功', { response })
-      return response
-    } catch (error: any) {
-      logger.error('Gemini 图像编辑 API 调用失败', { 
-        message: error?.message || '未知错误',
-        code: error?.code,
-        status: error?.response?.status
+    return images
+  }
+
+  // 记录每次调用提供方的用量
+  function recordCall(caller: UsageCaller) {
+    return (record: CallRecord) => {
+      usage.record(caller, record).catch(error => {
+        logger.error('记录用量失败', { error })
       })
-      // 不要直接抛出原始错误，避免泄露API密钥
-      throw new Error('图像处理API调用失败')
     }
   }
 
-  // 解析 Gemini 响应，提取图片 URL
-  function parseGeminiResponse(response: any): string[] {
+  // 按风格的提供方调用链生成图片，每次调用提供方都记录用量
+  async function callImageEdit(prompt: string, images: InputImage[], numImages: number = 1, style?: StyleConfig, signal?: AbortSignal, history?: HistoryTurn[], params?: GenerationParams, caller?: UsageCaller) {
+    const routes = resolveRoutes(config, style)
+    const result = await editWithFallback(providers, routes, { prompt, images, numImages, history, params, signal }, logger, {
+      retry: {
+        maxRetries: config.maxRetries,
+        baseDelay: config.retryBaseDelay * 1000,
+        maxDelay: config.retryMaxDelay * 1000
+      },
+      breaker,
+      keys,
+      onCall: caller && recordCall(caller)
+    })
+    
+    logger.info('图像生成完成', { provider: result.route.provider, model: result.route.model, count: result.images.length, numImages })
+    return { ...result, images: result.images.slice(0, numImages) }
+  }
+
+  // 保存图片到存储后端，失败时只记录日志，不影响任务本身
+  async function storeImages(save: () => Promise<string[]>, kind: string) {
     try {
-      const images: string[] = []
-      
-      if (response.candidates && response.candidates.length > 0) {
-        for (const candidate of response.candidates) {
-          if (candidate.content && candidate.content.parts) {
-            for (const part of candidate.content.parts) {
-              // 检查是否有 inlineData（Base64 图片，驼峰命名）
-              if (part.inlineData && part.inlineData.data) {
-                const base64Data = part.inlineData.data
-                const mimeType = part.inlineData.mimeType || 'image/jpeg'
-                const dataUrl = `data:${mimeType};base64,${base64Data}`
-                images.push(dataUrl)
-              }
-              // 兼容下划线命名
-              else if (part.inline_data && part.inline_data.data) {
-                const base64Data = part.inline_data.data
-                const mimeType = part.inline_data.mime_type || 'image/jpeg'
-                const dataUrl = `data:${mimeType};base64,${base64Data}`
-                images.push(dataUrl)
-              }
-              // 检查是否有 fileData（文件引用）
-              else if (part.fileData && part.fileData.fileUri) {
-                images.push(part.fileData.fileUri)
-              }
-            }
-          }
-        }
-      }
-      
-      return images
+      return await save()
     } catch (error) {
-      logger.error('解析 Gemini 响应失败', error)
+      logger.error(`保存${kind}失败`, { error })
       return []
     }
   }
 
-  // 带超时的通用图像处理函数
-  async function processImageWithTimeout(session: any, img: any, prompt: string, styleName: string, numImages?: number) {
-    return Promise.race([
-      processImage(session, img, prompt, styleName, numImages),
-      new Promise<string>((_, reject) => 
-        setTimeout(() => reject(new Error('命令执行超时')), config.commandTimeout * 1000)
-      )
-    ]).catch(error => {
-      const userId = session.userId
-      if (userId) activeTasks.delete(userId)
-      logger.error('图像处理超时或失败', { userId, error })
-      return error.message === '命令执行超时' ? '图像处理超时，请重试' : '图像处理失败，请稍后重试'
-    })
+  // 按配置的发送方式重新发布已保存的结果
+  async function hostStored(refs: string[]) {
+    return Promise.all(refs.map(async ref => output.host(await storage.read(ref))))
+  }
+
+  // 会话的语言回退顺序，与 session.text 选用文本的顺序一致
+  function localesOf(session: TaskSession) {
+    const observed = [session.channel, session.guild, session.user] as ({ locales?: string[] } | undefined)[]
+    return ctx.i18n.fallback([...session.locales || [], ...observed.flatMap(item => item?.locales || [])])
+  }
+
+  // 内置任务名称对应的本地化文本，风格任务直接显示风格名
+  const builtinLabels: Record<string, string> = {
+    '自定义prompt': 'custom',
+    '合并': 'merge',
+    '文生图': 'text-to-image',
+    '风格对比': 'compare',
+    '批量处理': 'batch',
+    '描述图片': 'describe',
+  }
+
+  function labelOf(session: TaskSession, label: string) {
+    return label in builtinLabels ? session.text(`yunwu-figurine.labels.${builtinLabels[label]}`) : label
+  }
+
+  // 转入后台的任务主动发送到原频道，提及用户并引用原指令消息
+  function notify(session: TaskSession, content: h.Fragment) {
+    return session.bot!.sendMessage(session.channelId!, [
+      ...session.messageId ? [h.quote(session.messageId)] : [],
+      h.at(session.userId!),
+      h.text(' '),
+      ...h.normalize(content),
+    ], session.guildId)
   }
 
-  // 通用图像处理函数
-  async function processImage(session: any, img: any, prompt: string, styleName: string, numImages?: number) {
-    const userId = session.userId
+  // 发送生成结果：单张直接发送，多张合并为一条转发消息，部分成功时说明成功数量
+  // 返回包含图片的消息ID，用于回复继续编辑
+  async function sendResults(session: TaskSession, images: string[], requested: number, doneText: string, background = false) {
+    const summary = images.length < requested
+      ? session.text('yunwu-figurine.task.partial', [doneText, images.length, requested])
+      : doneText
     
-    // 检查是否已有任务进行
-    if (activeTasks.has(userId)) {
-      return '您有一个图像处理任务正在进行中，请等待完成'
+    if (images.length === 1) {
+      const content = [h.text(summary), h.image(images[0])]
+      return background ? notify(session, content) : session.send(content)
     }
     
-    // 获取参数
-    const imageCount = numImages || config.defaultNumImages
+    await (background ? notify(session, summary) : session.send(summary))
+    return session.send(h('message', { forward: true }, images.map(src => h('message', {}, h.image(src)))))
+  }
+
+  // 没有生成图片时的提示，附带模型返回的说明文字
+  function formatRefusal(session: TaskSession, failText: string, category: RefusalCategory, text?: string) {
+    const message = session.text('yunwu-figurine.task.reason', [failText, session.text(`yunwu-figurine.refusal.${category}`)])
+    if (!text) return message
+    const reply = text.length > 300 ? `${text.slice(0, 300)}…` : text
+    return `${message}\n${session.text('yunwu-figurine.task.model-reply', [reply])}`
+  }
+
+  // 把存储中的对话记录转换为多轮请求上下文
+  async function loadHistory(turns: ConversationTurn[]) {
+    const history: HistoryTurn[] = []
+    for (const turn of turns) {
+      history.push({ role: 'user', text: turn.prompt, images: await Promise.all(turn.inputs.map(ref => storage.read(ref))) })
+      history.push({ role: 'model', images: await Promise.all(turn.outputs.map(ref => storage.read(ref))) })
+    }
+    return history
+  }
+
+  interface GenerationTask {
+    label: string         // 任务名称（风格名 / 自定义prompt / 合并）
+    prompt: string
+    imageUrls?: string[]
+    links?: string[]      // 其中用户提供的链接，只从公网地址下载
+    sourceRefs?: string[] // 历史记录中已保存的输入图片，提供时不再下载
+    conversation?: Conversation  // 继续编辑时之前的对话
+    numImages: number
+    style?: StyleConfig
+    params?: GenerationParams
+    fresh?: boolean       // 不使用缓存的结果
+    cost: number          // 每张图片消耗的额度
+    charge?: QuotaCharge  // 恢复的任务已扣除的额度，不再重复扣除
+    resumed?: number      // 恢复的任务记录ID，从一开始就在后台运行
+    startText: string
+    action: TaskAction
+  }
+
+  // 内置命令的任务名称与命令名、使用权限的对应关系
+  const builtinAccess: Record<string, [string, AccessConfig]> = {
+    '自定义prompt': ['生成图像', config.customPromptAccess],
+    '合并': ['合并', config.mergeAccess],
+    '文生图': ['文生图', config.textToImageAccess],
+    '描述图片': ['描述图片', config.describeAccess],
+  }
+
+  // 任务对应命令的使用权限，风格任务使用风格自身的设置
+  function accessOf(label: string, style?: StyleConfig): CommandAccess {
+    if (style) return { name: style.commandName, config: style }
+    const [name, access] = builtinAccess[label] || [label, {}]
+    return { name, config: access }
+  }
+
+  // 插件停用时保留进行中的任务记录，重启后恢复
+  let disposing = false
+
+  // 转入后台后，提示与结果改为主动发送到原频道
+  interface TaskReply {
+    background: boolean
+  }
+
+  async function runTask(session: TaskSession, task: GenerationTask) {
+    const reply: TaskReply = { background: !!task.resumed }
+    const message = await executeTask(session, task, reply)
+    if (!message || !reply.background) return message
+    await notify(session, message).catch(error => {
+      logger.error('发送后台任务通知失败', { userId: session.userId, error })
+    })
+  }
+
+  // 通用任务流程：下载 → 排队 → 生成 → 发送，超时或取消时中止所有下载与 HTTP 请求
+  async function executeTask(session: TaskSession, task: GenerationTask, reply: TaskReply) {
+    const userId = session.userId!
     
-    // 验证参数
-    if (imageCount < 1 || imageCount > 4) {
-      return '生成数量必须在 1-4 之间'
+    // 重做、继续编辑等入口同样受权限与冷却限制，恢复的任务已经检查过
+    const access = accessOf(task.label, task.style)
+    if (!task.resumed) {
+      const denied = await accessControl.check(session, access)
+      if (denied) {
+        return denied
+      }
     }
     
-    // 获取图片URL
-    const imageUrl = await getImageUrl(img, session)
-    if (!imageUrl) {
-      return  // 错误信息已在 getImageUrl 中发送
+    const job = scheduler.create(userId, session.guildId, task.label)
+    if (!job) {
+      return session.text('yunwu-figurine.busy')
     }
     
+    const failText = session.text(`yunwu-figurine.task.${task.action}.failed`)
+    const send = (content: h.Fragment) => reply.background ? notify(session, content) : session.send(content)
+    
+    // 超过命令超时时间仍在排队或生成时转入后台，超过后台超时时间才中止；没有机器人的会话（如 HTTP 接口）不转入后台
+    const canHandOff = config.backgroundTimeout > 0 && !!session.bot
+    let stored = task.resumed   // 持久化的任务记录ID
+    const { signal } = job.controller
+    const abort = () => job.controller.abort(new JobTimeoutError())
+    let timer = setTimeout(() => {
+      if (!canHandOff || reply.background || !['queued', 'generating'].includes(job.stage)) return abort()
+      reply.background = true
+      timer = setTimeout(abort, Math.max(0, config.backgroundTimeout * 60 - config.commandTimeout) * 1000)
+      logger.info('图像处理耗时较长，已转入后台', { userId, jobId: job.id })
+      session.send(session.text('yunwu-figurine.task.background')).catch(() => {})
+      if (stored) {
+        jobStore.update(stored, { background: true }).catch(error => {
+          logger.error('更新任务记录失败', { userId, error })
+        })
+      }
+    }, (reply.background ? config.backgroundTimeout * 60 : config.commandTimeout) * 1000)
+    
     logger.info('开始图像处理', { 
       userId, 
-      imageUrl, 
-      styleName,
-      prompt, 
-      numImages: imageCount 
+      jobId: job.id,
+      label: task.label,
+      imageUrls: task.imageUrls, 
+      sourceRefs: task.sourceRefs,
+      prompt: task.prompt, 
+      numImages: task.numImages 
     })
     
-    // 调用图像编辑API
-    await session.send(`开始处理图片（${styleName}）...`)
+    let charge: QuotaCharge | undefined
+    let produced = 0
+    let reused = false    // 结果来自缓存或其他任务负责的相同生成，不消耗额度
+    let status: HistoryStatus = 'failed'
+    let route: ProviderRoute | undefined
+    let sources = task.sourceRefs || []
+    const previousTurns = task.conversation?.turns || []
+    let outputs: string[] = []
     
     try {
-      activeTasks.set(userId, 'processing')
+      // 额度不足时在下载图片前拒绝
+      const consumed = task.charge || await quota.consume(session, task.cost * task.numImages)
+      if (typeof consumed === 'string') {
+        return consumed
+      }
+      charge = consumed
+      if (!task.resumed) accessControl.touch(session, access)
       
-      const response = await callGeminiImageEdit(prompt, imageUrl, imageCount)
-      const images = parseGeminiResponse(response)
+      await send(task.startText)
+      
+      job.stage = 'downloading'
+      let images: InputImage[] = []
+      let turns: HistoryTurn[] | undefined
+      if (task.conversation) {
+        // 继续编辑：上一轮的输出作为本次记录的输入
+        turns = await loadHistory(previousTurns)
+        sources = previousTurns[previousTurns.length - 1].outputs
+      } else if (task.sourceRefs) {
+        images = await Promise.all(task.sourceRefs.map(ref => storage.read(ref)))
+      } else {
+        images = await downloadImages(task.imageUrls || [], signal, task.links)
+        sources = await storeImages(() => Promise.all(images.map(image => storage.save(image))), '输入图片')
+      }
       
-      if (images.length === 0) {
-        activeTasks.delete(userId)
-        return '图像处理失败：未能生成图片'
+      // 记录进行中的任务，输入图片都已保存时才能在重启后恢复
+      if (canHandOff && !stored && (task.conversation || sources.length === images.length)) {
+        stored = await jobStore.create({
+          platform: session.platform,
+          selfId: session.selfId || '',
+          userId,
+          guildId: session.guildId || '',
+          channelId: session.channelId || '',
+          messageId: session.messageId || '',
+          label: task.label,
+          action: task.action,
+          style: task.style?.commandName || '',
+          prompt: task.prompt,
+          sources,
+          numImages: task.numImages,
+          params: task.params || {},
+          charge,
+          background: reply.background,
+        }).catch(error => {
+          logger.error('保存任务记录失败', { userId, error })
+          return undefined
+        })
       }
       
-      await session.send('图像处理完成！')
+      // 相同的输入、prompt、模型与参数：优先使用缓存，其次等待正在进行的相同任务，继续编辑不参与缓存
+      const cacheKey = config.cacheEnabled && !task.conversation ? cache.key({
+        images,
+        prompt: task.prompt,
+        routes: resolveRoutes(config, task.style),
+        params: task.params,
+        numImages: task.numImages
+      }) : undefined
+      const cached = cacheKey && !task.fresh ? cache.get(cacheKey) : undefined
+      const participant: Participant = { job, owner: false }
+      const shared = cacheKey && !task.fresh && !cached ? cache.join(cacheKey, participant) : undefined
       
-      // 发送生成的图片
-      for (let i = 0; i < images.length; i++) {
-        await session.send(h.image(images[i]))
+      let generated: GeneratedResult
+      if (cached) {
+        logger.info('使用缓存的结果', { userId, jobId: job.id, label: task.label })
+        reused = true
+        generated = { images: await hostStored(cached.outputs), route: cached.route }
+      } else if (shared) {
+        logger.info('等待相同的任务完成', { userId, jobId: job.id, label: task.label })
+        reused = true
+        job.stage = 'generating'
+        generated = await shared
+        // 发起的任务中途离开时由本任务接手，占用其执行槽位并支付额度
+        reused = !participant.owner
+      } else {
+        await scheduler.acquire(job, position => send(session.text('yunwu-figurine.task.queued', [position - 1])))
         
-        // 多张图片添加延时
-        if (images.length > 1 && i < images.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 1000))
-        }
+        job.stage = 'generating'
+        // 可共享的生成使用独立的中止信号，发起的任务取消后其他等待的任务仍能拿到结果
+        const run = (signal: AbortSignal) => callImageEdit(task.prompt, images, task.numImages, task.style, signal, turns, task.params, {
+          platform: session.platform,
+          userId,
+          guildId: session.guildId || '',
+          style: task.label
+        })
+        generated = await (cacheKey ? cache.start(cacheKey, participant, run) : run(signal))
+      }
+      const results = generated.images
+      route = generated.route
+      
+      if (results.length === 0) {
+        const refusal: Refusal = generated.refusal || { category: 'other', reason: 'EMPTY' }
+        logger.warn('模型未返回图片', {
+          userId,
+          jobId: job.id,
+          category: refusal.category,
+          reason: refusal.reason,
+          details: refusal.details,
+          provider: route.provider,
+          model: route.model
+        })
+        return formatRefusal(session, failText, refusal.category, generated.text)
+      }
+      
+      // 超时或取消后不再发送结果
+      signal.throwIfAborted()
+      job.stage = 'sending'
+      // 缓存的结果已经处理并保存过，直接发送
+      const processed = cached ? undefined : await output.process(results, signal)
+      if (processed && !processed.length) {
+        return formatRefusal(session, failText, 'other')
       }
+      signal.throwIfAborted()
+      produced = processed ? processed.length : results.length
+      const messageIds = await sendResults(session, processed ? processed.map(item => item.src) : results, task.numImages, session.text(`yunwu-figurine.task.${task.action}.done`), reply.background)
+      
+      status = produced < task.numImages ? 'partial' : 'success'
+      outputs = processed
+        ? await storeImages(() => Promise.all(processed.map(item => storage.save(item.image))), '生成结果')
+        : cached!.outputs
       
-      activeTasks.delete(userId)
+      // 只缓存全部成功且已保存的结果
+      if (cacheKey && !cached && status === 'success' && outputs.length === produced) {
+        cache.set(cacheKey, { outputs, route: generated.route })
+      }
       
+      // 记录对话，用户回复结果消息即可继续编辑
+      if (config.continueEditing && outputs.length) {
+        conversations.bind({
+          platform: session.platform,
+          userId,
+          label: task.label,
+          style: task.style,
+          params: task.params,
+          turns: [...previousTurns, { prompt: task.prompt, inputs: task.conversation ? [] : sources, outputs }],
+          updatedAt: Date.now()
+        }, messageIds)
+      }
     } catch (error) {
-      activeTasks.delete(userId)
-      logger.error('图像处理失败', { userId, error })
+      if (signal.reason instanceof JobTimeoutError) {
+        status = 'timeout'
+        logger.warn('图像处理超时，已中止任务', { userId, jobId: job.id })
+        return session.text(`yunwu-figurine.task.${task.action}.timeout`)
+      }
+      if (signal.reason instanceof JobCancelledError) {
+        status = 'cancelled'
+        logger.info('图像处理任务已取消', { userId, jobId: job.id })
+        return session.text('yunwu-figurine.task.cancelled')
+      }
+      if (error instanceof ImageInputError) {
+        logger.info('输入图片不符合要求', { userId, jobId: job.id, reason: error.message })
+        return session.text(`yunwu-figurine.image.${error.key}`, error.params)
+      }
+      if (error instanceof CircuitOpenError) {
+        logger.warn('图像服务熔断中，已拒绝任务', { userId, jobId: job.id, retryIn: error.retryIn })
+        return session.text('yunwu-figurine.circuit-open', [Math.ceil(error.retryIn / 1000)])
+      }
+      if (error instanceof ProviderError && error.kind !== 'unknown') {
+        logger.warn('图像服务调用失败', { userId, jobId: job.id, category: error.kind, status: error.status })
+        return session.text('yunwu-figurine.task.reason', [failText, session.text(`yunwu-figurine.provider.${error.kind}`)])
+      }
+      
+      logger.error('图像处理失败', { userId, jobId: job.id, error })
       
       // 不返回具体错误信息，避免泄露API密钥或其他敏感信息
-      return '图像处理失败，请稍后重试'
+      return session.text('yunwu-figurine.task.retry', [failText])
+    } finally {
+      clearTimeout(timer)
+      scheduler.release(job)
+      // 插件停用导致中断的任务保留记录与额度，重启后恢复
+      const interrupted = !!stored && disposing
+      if (stored && !interrupted) {
+        await jobStore.remove(stored).catch(error => {
+          logger.error('删除任务记录失败', { userId, error })
+        })
+      }
+      // 退还未生成部分的额度，复用的结果全部退还
+      const unused = reused ? task.numImages : task.numImages - produced
+      if (charge && unused > 0 && !interrupted) {
+        await quota.refund(charge, unused / task.numImages).catch(error => {
+          logger.error('退还额度失败', { userId, error })
+        })
+      }
+      // 额度不足被拒绝的请求不记录
+      if (charge && !interrupted) {
+        await history.record({
+          platform: session.platform,
+          userId,
+          guildId: session.guildId || '',
+          channelId: session.channelId || '',
+          style: task.label,
+          prompt: task.prompt,
+          sources,
+          outputs,
+          provider: route?.provider || '',
+          model: route?.model || '',
+          numImages: task.numImages,
+          params: task.params || {},
+          duration: Date.now() - job.createdAt,
+          status,
+        }).catch(error => {
+          logger.error('记录历史失败', { userId, error })
+        })
+      }
     }
   }
 
+  interface ParamOptions {
+    ratio?: string
+    size?: string
+    seed?: number
+    temperature?: number
+    fresh?: boolean
+  }
+  
+  // 合并风格的默认生成参数与命令选项，并按主提供方的模型校验
+  function resolveParams(session: TaskSession, options: ParamOptions, style?: StyleConfig): GenerationParams | string {
+    const params: GenerationParams = {
+      aspectRatio: options.ratio || style?.aspectRatio || undefined,
+      imageSize: options.size?.toUpperCase() || style?.imageSize || undefined,
+      seed: options.seed ?? style?.seed,
+      temperature: options.temperature ?? style?.temperature,
+      negativePrompt: style?.negativePrompt || undefined,
+    }
+    const [route] = resolveRoutes(config, style)
+    const issue = validateParams(providers, route, params)
+    return issue ? session.text(`yunwu-figurine.params.${issue.key}`, issue.params) : params
+  }
 
-  // 动态注册风格命令
-  if (config.styles && Array.isArray(config.styles)) {
-    for (const style of config.styles) {
-      if (style.enabled && style.commandName && style.prompt) {
-        ctx.command(`${style.commandName} [img:text]`, style.commandDescription || '图像风格转换')
-          .option('num', '-n <num:number> 生成图片数量 (1-4)')
-          .action(async ({ session, options }, img) => {
-            if (!session?.userId) return '会话无效'
-            return processImageWithTimeout(session, img, style.prompt, style.commandName, options?.num)
-          })
-        
-        logger.info(`已注册命令: ${style.commandName}`)
+  // 风格命令处理函数
+  async function processImage(session: Session, content: string | undefined, style: StyleConfig, numImages?: number, values: Record<string, any> = {}, options: ParamOptions = {}) {
+    const userId = session.userId!
+    
+    // 检查是否已有任务进行
+    if (scheduler.has(userId)) {
+      return session.text('yunwu-figurine.busy')
+    }
+    
+    const denied = await accessControl.check(session, accessOf(style.commandName, style))
+    if (denied) {
+      return denied
+    }
+    
+    const params = resolveParams(session, options, style)
+    if (typeof params === 'string') {
+      return params
+    }
+    
+    // 获取参数
+    const imageCount = numImages || config.defaultNumImages
+    
+    // 验证参数
+    if (imageCount < 1 || imageCount > 4) {
+      return session.text('yunwu-figurine.invalid-count')
+    }
+    
+    // 获取输入图片：命令参数、@用户头像、引用或转发消息、图片链接，不足时等待用户发送
+    // 图片可选时不等待，没有图片则直接按 prompt 生成；不接受图片时忽略所有图片
+    const imageMode = style.imageMode || 'required'
+    const input = await inputs.resolve(session, content, {
+      min: imageMode === 'required' ? style.minImages ?? 1 : 0,
+      max: imageMode === 'forbidden' ? 0 : style.maxImages ?? 1
+    }, missing => missing > 1 ? session.text('yunwu-figurine.send-images', [missing]) : session.text('yunwu-figurine.send-image'))
+    if (typeof input === 'string') {
+      return input
+    }
+    
+    // 填充 prompt 模板
+    let prompt: string
+    try {
+      prompt = renderPrompt(localizeStyle(style, localesOf(session)), {
+        args: input.text ? input.text.split(' ') : [],
+        options: values,
+        nickname: session.username
+      })
+    } catch (error) {
+      if (error instanceof TemplateError) return session.text(`yunwu-figurine.template.${error.key}`, error.params)
+      throw error
+    }
+    logger.debug('风格 prompt', { style: style.commandName, prompt })
+    
+    return runTask(session, {
+      label: style.commandName,
+      prompt,
+      imageUrls: input.images,
+      links: input.links,
+      numImages: imageCount,
+      style,
+      params,
+      fresh: options.fresh,
+      cost: style.cost ?? 1,
+      startText: session.text(input.images.length ? 'yunwu-figurine.task.start-image' : 'yunwu-figurine.task.start-text', [style.commandName]),
+      action: 'process'
+    })
+  }
+
+
+  // 文字模型调用与图像任务一样占用任务槽位并按 assistCost 扣除额度，失败、取消或没有返回文字时全部退还
+  async function runAssist(session: Session, label: string, run: (signal: AbortSignal, onCall: (record: CallRecord) => void) => Promise<string>): Promise<{ text: string } | string> {
+    const userId = session.userId!
+    const job = scheduler.create(userId, session.guildId, label)
+    if (!job) {
+      return session.text('yunwu-figurine.busy')
+    }
+    
+    const { signal } = job.controller
+    let charge: QuotaCharge | undefined
+    let text = ''
+    try {
+      const consumed = await quota.consume(session, config.assistCost)
+      if (typeof consumed === 'string') {
+        return consumed
+      }
+      charge = consumed
+      
+      await scheduler.acquire(job, position => session.send(session.text('yunwu-figurine.task.queued', [position - 1])))
+      job.stage = 'generating'
+      text = await run(signal, recordCall({
+        platform: session.platform,
+        userId,
+        guildId: session.guildId || '',
+        style: label
+      }))
+      return { text }
+    } catch (error) {
+      if (signal.reason instanceof JobCancelledError) {
+        logger.info('文字模型调用已取消', { userId, jobId: job.id })
+        return session.text('yunwu-figurine.task.cancelled')
+      }
+      throw error
+    } finally {
+      scheduler.release(job)
+      if (charge && !text) {
+        await quota.refund(charge, 1).catch(error => {
+          logger.error('退还额度失败', { userId, error })
+        })
       }
     }
   }
-  
-  // 生成图像命令（自定义prompt）
-  ctx.command('生成图像', '使用自定义prompt进行图像处理')
-    .option('num', '-n <num:number> 生成图片数量 (1-4)')
-    .action(async ({ session, options }) => {
-      if (!session?.userId) return '会话无效'
+
+  // 提交前用文字模型扩写或翻译 prompt，未开启或指定 --raw 时原样返回；调用失败或没有返回文字时沿用原 prompt
+  async function assistPrompt(session: Session, prompt: string, label: string, raw?: boolean): Promise<{ prompt: string } | string> {
+    if (!config.promptAssist || raw) return { prompt }
+    const instruction = config.assistInstruction || session.text('yunwu-figurine.assist.instruction')
+    try {
+      const result = await runAssist(session, label, (signal, onCall) => assistant.rewrite(prompt, instruction, signal, onCall))
+      if (typeof result === 'string') return result
+      return { prompt: result.text || prompt }
+    } catch (error) {
+      logger.warn('prompt 优化失败，使用原 prompt', { error })
+      return { prompt }
+    }
+  }
+
+  // 收集图片与 prompt：先读取命令参数与引用消息，不完整时循环接收消息，直到收到文字作为 prompt
+  async function collectImagesAndPrompt(session: Session, content: string | undefined, limits: InputLimits, introText: string): Promise<ResolvedInput | string> {
+    const { images: collectedImages, links, text } = await inputs.fromCommand(session, content)
+    let prompt = text
+    
+    if (collectedImages.length < limits.min || !prompt) {
+      await session.send(introText)
       
-      return Promise.race([
-        (async () => {
-          const userId = session.userId
-          if (!userId) return '会话无效'
-          
-          // 检查是否已有任务进行
-          if (activeTasks.has(userId)) {
-            return '您有一个图像处理任务正在进行中，请等待完成'
-          }
-          
-          // 等待用户发送图片和prompt
-          await session.send('请发送图片和prompt，支持两种方式：\n1. 同时发送：[图片] + prompt描述\n2. 分步发送：先发送图片，再发送prompt文字\n\n例如：[图片] 让这张图片变成油画风格')
-          
-          const collectedImages: string[] = []
-          let prompt = ''
-          
-          // 循环接收消息，直到收到纯文字消息作为 prompt
-          while (true) {
-            const msg = await session.prompt(60000) // 60秒超时
-            if (!msg) {
-              return '等待超时，请重试'
-            }
-            
-            const elements = h.parse(msg)
-            const images = h.select(elements, 'img')
-            const textElements = h.select(elements, 'text')
-            const text = textElements.map(el => el.attrs.content).join(' ').trim()
-            
-            // 如果有图片，收集图片
-            if (images.length > 0) {
-              for (const img of images) {
-                collectedImages.push(img.attrs.src)
-              }
-              
-              // 如果同时有文字，作为 prompt 并结束
-              if (text) {
-                prompt = text
-                break
-              }
-              
-              // 只有图片，继续等待
-              await session.send(`已收到 ${collectedImages.length} 张图片，请继续发送图片或发送 prompt 文字`)
-              continue
-            }
-            
-            // 如果只有文字
-            if (text) {
-              if (collectedImages.length === 0) {
-                return '未检测到图片，请先发送图片'
-              }
-              prompt = text
-              break
-            }
-            
-            // 既没有图片也没有文字
-            return '未检测到有效内容，请重新发送'
-          }
-          
-          // 验证
-          if (collectedImages.length === 0) {
-            return '未检测到图片，请重新发送'
-          }
-          
-          if (!prompt) {
-            return '未检测到prompt描述，请重新发送'
-          }
-          
-          const imageUrl = collectedImages[0]
-          const imageCount = options?.num || config.defaultNumImages
+      while (true) {
+        const msg = await session.prompt(60000) // 60秒超时
+        if (!msg) {
+          return session.text('yunwu-figurine.input.timeout')
+        }
+        
+        const { images, links: received, text } = await inputs.collect(session, h.parse(msg))
+        links.push(...received)
+        
+        // 如果有图片，收集图片
+        if (images.length > 0) {
+          collectedImages.push(...images)
           
-          // 验证参数
-          if (imageCount < 1 || imageCount > 4) {
-            return '生成数量必须在 1-4 之间'
+          // 如果同时有文字，作为 prompt 并结束
+          if (text) {
+            prompt = text
+            break
           }
           
-          logger.info('开始自定义图像处理', { 
-            userId, 
-            imageUrl, 
-            prompt, 
-            numImages: imageCount 
-          })
-          
-          // 调用图像编辑API
-          await session.send(`开始处理图片（自定义prompt）...\nPrompt: ${prompt}`)
-          
-          try {
-            activeTasks.set(userId, 'processing')
-            
-            const response = await callGeminiImageEdit(prompt, imageUrl, imageCount)
-            const resultImages = parseGeminiResponse(response)
-            
-            if (resultImages.length === 0) {
-              activeTasks.delete(userId)
-              return '图像处理失败：未能生成图片'
-            }
-            
-            await session.send('图像处理完成！')
-            
-            // 发送生成的图片
-            for (let i = 0; i < resultImages.length; i++) {
-              await session.send(h.image(resultImages[i]))
-              
-              if (resultImages.length > 1 && i < resultImages.length - 1) {
-                await new Promise(resolve => setTimeout(resolve, 1000))
-              }
-            }
-            
-            activeTasks.delete(userId)
-            
-          } catch (error) {
-            activeTasks.delete(userId)
-            logger.error('自定义图像处理失败', { userId, error })
-            
-            // 不返回具体错误信息，避免泄露API密钥或其他敏感信息
-            return '图像处理失败，请稍后重试'
-          }
-        })(),
-        new Promise<string>((_, reject) => 
-          setTimeout(() => reject(new Error('命令执行超时')), config.commandTimeout * 1000)
-        )
-      ]).catch(error => {
-        const userId = session.userId
-        if (userId) activeTasks.delete(userId)
-        logger.error('自定义图像处理超时或失败', { userId, error })
-        return error.message === '命令执行超时' ? '图像处理超时，请重试' : '图像处理失败，请稍后重试'
-      })
+          // 只有图片，继续等待
+          await session.send(session.text('yunwu-figurine.input.received', [collectedImages.length]))
+          continue
+        }
+        
+        // 如果只有文字
+        if (text) {
+          prompt = text
+          break
+        }
+        
+        // 既没有图片也没有文字
+        return session.text('yunwu-figurine.input.no-content')
+      }
+    }
+    
+    // 验证
+    if (collectedImages.length < limits.min) {
+      return limits.min > 1
+        ? session.text('yunwu-figurine.input.need-images', [limits.min, collectedImages.length])
+        : session.text('yunwu-figurine.input.no-image')
+    }
+    
+    if (!prompt) {
+      return session.text('yunwu-figurine.input.no-prompt')
+    }
+    
+    return { images: collectedImages.slice(0, limits.max), links, text: prompt }
+  }
+
+  // 注册单个风格命令，风格增删改时由风格存储重新注册；返回的函数注销命令及其本地化文本
+  function registerStyle(style: StyleConfig) {
+    const params = (style.params || []).filter(param => !reservedParams.includes(param.name))
+    const command = ctx.command(`${style.commandName} [content:text]`, style.commandDescription, inputCommand)
+      .option('num', '-n <num:number>')
+      .option('ratio', '-r <ratio:string>')
+      .option('size', '--size <size:string>')
+      .option('seed', '--seed <seed:integer>')
+      .option('temperature', '--temperature <value:number>')
+      .option('fresh', '--fresh')
+    
+    // 生成类选项的说明与其他语言的命令描述
+    const disposers: (() => void)[] = []
+    for (const [locale, options] of Object.entries(generationOptions)) {
+      disposers.push(ctx.i18n.define(locale, `commands.${style.commandName}.options`, options))
+    }
+    // 没有填写描述的风格使用各语言的默认描述
+    if (!style.commandDescription) {
+      for (const [locale, description] of Object.entries(defaultStyleDescriptions)) {
+        disposers.push(ctx.i18n.define(locale, `commands.${style.commandName}.description`, description))
+      }
+    }
+    for (const { locale, description } of style.translations || []) {
+      if (!description) continue
+      disposers.push(ctx.i18n.define(locale, `commands.${style.commandName}.description`, description))
+    }
+    
+    // 每个模板参数都可以通过 --参数名 指定
+    for (const param of params) {
+      command.option(param.name, `--${param.name} <value:string> ${param.description || ''}`)
+    }
+    if (params.length) {
+      command.usage(session => describeParams(session, params))
+    }
+    
+    command.action(async ({ session, options }, content) => {
+      if (!session?.userId) return session?.text('yunwu-figurine.invalid-session')
+      const { num, ratio, size, seed, temperature, fresh, ...values } = options || {}
+      return processImage(session, content, style, num, values, { ratio, size, seed, temperature, fresh })
     })
+    
+    return () => {
+      disposers.forEach(dispose => dispose())
+      command.dispose()
+    }
+  }
+  
+  const styles = createStyleStore(ctx, config, logger, registerStyle)
+  // 插件停用或重启前未完成的任务，对应的机器人上线后恢复或通知用户
+  const interrupted: YunwuJob[] = []
 
-  // 合并命令（多张图片合并）
-  ctx.command('合并', '合并多张图片，使用自定义prompt控制合并效果')
-    .option('num', '-n <num:number> 生成图片数量 (1-4)')
-    .action(async ({ session, options }) => {
-      if (!session?.userId) return '会话无效'
-      
-      return Promise.race([
-        (async () => {
-          const userId = session.userId
-          if (!userId) return '会话无效'
-          
-          // 检查是否已有任务进行
-          if (activeTasks.has(userId)) {
-            return '您有一个图像处理任务正在进行中，请等待完成'
-          }
-          
-          // 等待用户发送多张图片和prompt
-          await session.send('请发送多张图片和prompt，支持两种方式：\n1. 同时发送：[图片1] [图片2]... + prompt描述\n2. 分步发送：先发送多张图片，再发送prompt文字\n\n例如：[图片1] [图片2] 将这两张图片合并成一张')
-          
-          const collectedImages: string[] = []
-          let prompt = ''
-          
-          // 循环接收消息，直到收到纯文字消息作为 prompt
-          while (true) {
-            const msg = await session.prompt(60000) // 60秒超时
-            if (!msg) {
-              return '等待超时，请重试'
-            }
-            
-            const elements = h.parse(msg)
-            const images = h.select(elements, 'img')
-            const textElements = h.select(elements, 'text')
-            const text = textElements.map(el => el.attrs.content).join(' ').trim()
-            
-            // 如果有图片，收集图片
-            if (images.length > 0) {
-              for (const img of images) {
-                collectedImages.push(img.attrs.src)
-              }
-              
-              // 如果同时有文字，作为 prompt 并结束
-              if (text) {
-                prompt = text
-                break
-              }
-              
-              // 只有图片，继续等待
-              await session.send(`已收到 ${collectedImages.length} 张图片，请继续发送图片或发送 prompt 文字`)
-              continue
-            }
-            
-            // 如果只有文字
-            if (text) {
-              if (collectedImages.length < 2) {
-                return `需要至少两张图片进行合并，当前只有 ${collectedImages.length} 张图片`
-              }
-              prompt = text
-              break
-            }
-            
-            // 既没有图片也没有文字
-            return '未检测到有效内容，请重新发送'
-          }
-          
-          // 验证
-          if (collectedImages.length < 2) {
-            return '需要至少两张图片进行合并，请重新发送'
-          }
-          
-          if (!prompt) {
-            return '未检测到prompt描述，请重新发送'
-          }
-          
-          const imageCount = options?.num || config.defaultNumImages
-          
-          // 验证参数
-          if (imageCount < 1 || imageCount > 4) {
-            return '生成数量必须在 1-4 之间'
-          }
-          
-          logger.info('开始图片合并处理', { 
-            userId, 
-            imageUrls: collectedImages, 
-            prompt, 
-            numImages: imageCount,
-            imageCount: collectedImages.length
-          })
-          
-          // 调用图像编辑API（支持多张图片）
-          await session.send(`开始合并图片（${collectedImages.length}张）...\nPrompt: ${prompt}`)
-          
-          try {
-            activeTasks.set(userId, 'processing')
-            
-            const response = await callGeminiImageEdit(prompt, collectedImages, imageCount)
-            const resultImages = parseGeminiResponse(response)
-            
-            if (resultImages.length === 0) {
-              activeTasks.delete(userId)
-              return '图片合并失败：未能生成图片'
-            }
-            
-            await session.send('图片合并完成！')
-            
-            // 发送生成的图片
-            for (let i = 0; i < resultImages.length; i++) {
-              await session.send(h.image(resultImages[i]))
-              
-              if (resultImages.length > 1 && i < resultImages.length - 1) {
-                await new Promise(resolve => setTimeout(resolve, 1000))
-              }
-            }
-            
-            activeTasks.delete(userId)
-            
-          } catch (error) {
-            activeTasks.delete(userId)
-            logger.error('图片合并失败', { userId, error })
-            
-            // 不返回具体错误信息，避免泄露API密钥或其他敏感信息
-            return '图片合并失败，请稍后重试'
-          }
-        })(),
-        new Promise<string>((_, reject) => 
-          setTimeout(() => reject(new Error('命令执行超时')), config.commandTimeout * 1000)
-        )
-      ]).catch(error => {
-        const userId = session.userId
-        if (userId) activeTasks.delete(userId)
-        logger.error('图片合并超时或失败', { userId, error })
-        return error.message === '命令执行超时' ? '图片合并超时，请重试' : '图片合并失败，请稍后重试'
-      })
+  async function resumeJob(session: Session, record: YunwuJob) {
+    const style = record.style ? styles.get(record.style) : undefined
+    if (!config.resumeJobs || (record.style && !style?.enabled) || scheduler.has(record.userId)) {
+      logger.info('插件重启前的任务已中断', { userId: record.userId, jobId: record.id, label: record.label })
+      await jobStore.remove(record.id)
+      await quota.refund(record.charge, 1)
+      await notify(session, session.text('yunwu-figurine.task.interrupted', [labelOf(session, record.label)]))
+      return
+    }
+    
+    logger.info('恢复插件重启前的任务', { userId: record.userId, jobId: record.id, label: record.label })
+    await runTask(session, {
+      label: record.label,
+      prompt: record.prompt,
+      sourceRefs: record.sources,
+      numImages: record.numImages,
+      style,
+      params: record.params,
+      cost: 0,
+      charge: record.charge,
+      resumed: record.id,
+      startText: session.text('yunwu-figurine.task.resuming', [labelOf(session, record.label)]),
+      action: record.action || 'process'
     })
+  }
 
-  // 任务状态查询命令
-  ctx.command('图像处理.状态', '查询当前图像处理任务状态')
-    .action(async ({ session }) => {
-      if (!session?.userId) return '会话无效'
+  function recover(bot: Bot) {
+    if (bot.status !== Universal.Status.ONLINE) return
+    for (const record of interrupted.filter(item => item.platform === bot.platform && item.selfId === bot.selfId)) {
+      interrupted.splice(interrupted.indexOf(record), 1)
+      const session = bot.session({
+        type: 'message-created',
+        channel: { id: record.channelId, type: record.guildId ? Universal.Channel.Type.TEXT : Universal.Channel.Type.DIRECT },
+        guild: record.guildId ? { id: record.guildId } : undefined,
+        user: { id: record.userId },
+        message: { id: record.messageId },
+      }) as Session
+      resumeJob(session, record).catch(error => {
+        logger.error('恢复任务失败', { userId: record.userId, jobId: record.id, error })
+      })
+    }
+  }
+
+  ctx.on('ready', async () => {
+    await styles.load()
+    interrupted.push(...await jobStore.list())
+    if (interrupted.length) {
+      logger.info('发现未完成的任务', { count: interrupted.length })
+    }
+    ctx.bots.forEach(recover)
+  })
+  ctx.on('bot-status-updated', recover)
+  
+  // 生成图像命令（自定义prompt）
+  ctx.command('生成图像 [content:text]', inputCommand)
+    .option('num', '-n <num:number>')
+    .option('ratio', '-r <ratio:string>')
+    .option('size', '--size <size:string>')
+    .option('seed', '--seed <seed:integer>')
+    .option('temperature', '--temperature <value:number>')
+    .option('fresh', '--fresh')
+    .option('raw', '--raw')
+    .action(async ({ session, options }, content) => {
+      if (!session?.userId) return session?.text('yunwu-figurine.invalid-session')
       
       const userId = session.userId
-      const taskStatus = activeTasks.get(userId)
       
-      if (!taskStatus) {
-        return '当前没有图像处理任务'
+      // 检查是否已有任务进行
+      if (scheduler.has(userId)) {
+        return session.text('yunwu-figurine.busy')
       }
       
-      return `图像处理任务进行中...`
-    })
+      // 回复机器人生成的图片时继续编辑，命令中没有修改说明时再询问
+      const conversation = findConversation(session)
+      if (conversation) {
+        let text = h.select(h.parse(content || ''), 'text').map(el => el.attrs.content).join(' ').trim()
+        if (!text) {
+          await session.send(session.text('.ask-instruction'))
+          const msg = await session.prompt(60000)
+          if (!msg) {
+            return session.text('yunwu-figurine.input.timeout')
+          }
+          text = h.select(h.parse(msg), 'text').map(el => el.attrs.content).join(' ').trim()
+        }
+        if (!text) {
+          return session.text('.no-instruction')
+        }
+        return continueEditing(session, conversation, text)
+      }
+      
+      const denied = await accessControl.check(session, accessOf('自定义prompt'))
+      if (denied) {
+        return denied
+      }
+      
+      const params = resolveParams(session, options || {})
+      if (typeof params === 'string') {
+        return params
+      }
+      
+      const input = await collectImagesAndPrompt(session, content, { min: 1, max: 4 }, session.text('.intro'))
+      if (typeof input === 'string') {
+        return input
+      }
+      const { images: collectedImages, links, text } = input
+      
+      const imageCount = options?.num || config.defaultNumImages
+      
+      // 验证参数
+      if (imageCount < 1 || imageCount > 4) {
+        return session.text('yunwu-figurine.invalid-count')
+      }
+      
+      const assisted = await assistPrompt(session, text, '自定义prompt', options?.raw)
+      if (typeof assisted === 'string') {
+        return assisted
+      }
+      const { prompt } = assisted
+      return runTask(session, {
+        label: '自定义prompt',
+        prompt,
+        imageUrls: collectedImages,
+        links,
+        numImages: imageCount,
+        params,
+        fresh: options?.fresh,
+        cost: config.customPromptCost,
+        startText: prompt === text ? session.text('.start', [prompt]) : session.text('.start-assisted', [text, prompt]),
+        action: 'process'
+      })
+    })
+
+  // 文生图命令（不需要输入图片）
+  ctx.command('文生图 [content:text]')
+    .option('num', '-n <num:number>')
+    .option('ratio', '-r <ratio:string>')
+    .option('size', '--size <size:string>')
+    .option('seed', '--seed <seed:integer>')
+    .option('temperature', '--temperature <value:number>')
+    .option('fresh', '--fresh')
+    .action(async ({ session, options }, content) => {
+      if (!session?.userId) return session?.text('yunwu-figurine.invalid-session')
+      
+      if (scheduler.has(session.userId)) {
+        return session.text('yunwu-figurine.busy')
+      }
+      
+      const denied = await accessControl.check(session, accessOf('文生图'))
+      if (denied) {
+        return denied
+      }
+      
+      const params = resolveParams(session, options || {})
+      if (typeof params === 'string') {
+        return params
+      }
+      
+      const imageCount = options?.num || config.defaultNumImages
+      if (imageCount < 1 || imageCount > 4) {
+        return session.text('yunwu-figurine.invalid-count')
+      }
+      
+      let prompt = content ? h.select(h.parse(content), 'text').map(el => el.attrs.content).join(' ').trim() : ''
+      if (!prompt) {
+        await session.send(session.text('.ask'))
+        const msg = await session.prompt(60000)
+        if (!msg) {
+          return session.text('yunwu-figurine.input.timeout')
+        }
+        prompt = h.select(h.parse(msg), 'text').map(el => el.attrs.content).join(' ').trim()
+        if (!prompt) {
+          return session.text('.no-description')
+        }
+      }
+      
+      return runTask(session, {
+        label: '文生图',
+        prompt,
+        imageUrls: [],
+        numImages: imageCount,
+        params,
+        fresh: options?.fresh,
+        cost: config.customPromptCost,
+        startText: session.text('.start', [prompt]),
+        action: 'generate'
+      })
+    })
+
+  // 合并命令（多张图片合并）
+  ctx.command('合并 [content:text]', inputCommand)
+    .option('num', '-n <num:number>')
+    .option('ratio', '-r <ratio:string>')
+    .option('size', '--size <size:string>')
+    .option('seed', '--seed <seed:integer>')
+    .option('temperature', '--temperature <value:number>')
+    .option('fresh', '--fresh')
+    .option('raw', '--raw')
+    .action(async ({ session, options }, content) => {
+      if (!session?.userId) return session?.text('yunwu-figurine.invalid-session')
+      
+      const userId = session.userId
+      
+      // 检查是否已有任务进行
+      if (scheduler.has(userId)) {
+        return session.text('yunwu-figurine.busy')
+      }
+      
+      const denied = await accessControl.check(session, accessOf('合并'))
+      if (denied) {
+        return denied
+      }
+      
+      const params = resolveParams(session, options || {})
+      if (typeof params === 'string') {
+        return params
+      }
+      
+      const input = await collectImagesAndPrompt(session, content, { min: 2, max: 6 }, session.text('.intro'))
+      if (typeof input === 'string') {
+        return input
+      }
+      const { images: collectedImages, links, text } = input
+      
+      const imageCount = options?.num || config.defaultNumImages
+      
+      // 验证参数
+      if (imageCount < 1 || imageCount > 4) {
+        return session.text('yunwu-figurine.invalid-count')
+      }
+      
+      const assisted = await assistPrompt(session, text, '合并', options?.raw)
+      if (typeof assisted === 'string') {
+        return assisted
+      }
+      const { prompt } = assisted
+      return runTask(session, {
+        label: '合并',
+        prompt,
+        imageUrls: collectedImages,
+        links,
+        numImages: imageCount,
+        params,
+        fresh: options?.fresh,
+        cost: config.customPromptCost,
+        startText: prompt === text
+          ? session.text('.start', [collectedImages.length, prompt])
+          : session.text('.start-assisted', [collectedImages.length, text, prompt]),
+        action: 'merge'
+      })
+    })
+
+  // 描述图片命令：返回图片的文字描述，或一段可以用于生成的提示词
+  ctx.command('描述图片 [content:text]', inputCommand)
+    .option('prompt', '-p')
+    .action(async ({ session, options }, content) => {
+      if (!session?.userId) return session?.text('yunwu-figurine.invalid-session')
+      
+      if (scheduler.has(session.userId)) {
+        return session.text('yunwu-figurine.busy')
+      }
+      
+      const access = accessOf('描述图片')
+      const denied = await accessControl.check(session, access)
+      if (denied) {
+        return denied
+      }
+      
+      const input = await inputs.resolve(session, content, { min: 1, max: 1 }, () => session.text('yunwu-figurine.send-image'))
+      if (typeof input === 'string') {
+        return input
+      }
+      
+      const failText = session.text('.failed')
+      try {
+        const [image] = await downloadImages(input.images, undefined, input.links)
+        const instruction = options?.prompt
+          ? config.suggestInstruction || session.text('yunwu-figurine.assist.suggest')
+          : config.describeInstruction || session.text('yunwu-figurine.assist.describe')
+        const result = await runAssist(session, '描述图片', (signal, onCall) => assistant.describe(image, instruction, input.text || undefined, signal, onCall))
+        if (typeof result === 'string') {
+          return result
+        }
+        accessControl.touch(session, access)
+        if (!result.text) {
+          return session.text('.empty')
+        }
+        // 模型的回复按纯文本发送，不解析为消息元素
+        return h.text(result.text)
+      } catch (error) {
+        if (error instanceof ImageInputError) {
+          return session.text(`yunwu-figurine.image.${error.key}`, error.params)
+        }
+        if (error instanceof ProviderError && error.kind !== 'unknown') {
+          return session.text('yunwu-figurine.task.reason', [failText, session.text(`yunwu-figurine.provider.${error.kind}`)])
+        }
+        logger.error('描述图片失败', { userId: session.userId, error })
+        return session.text('yunwu-figurine.task.retry', [failText])
+      }
+    })
+
+  // 批量任务中的一项：一个风格处理一张输入图片
+  interface BatchItem {
+    label: string         // 对比图中的标签
+    style: StyleConfig
+    prompt: string
+    params: GenerationParams
+    input: number         // 输入图片序号
+  }
+
+  interface BatchTask {
+    label: string         // 任务名称（风格对比 / 批量处理）
+    imageUrls: string[]
+    links: string[]       // 其中用户提供的链接，只从公网地址下载
+    items: BatchItem[]
+    full: boolean         // 同时以转发消息发送原图
+    startText: string
+  }
+
+  // 风格对比与批量处理只支持单张输入图片的风格
+  function isBatchable(style: StyleConfig) {
+    return style.enabled && style.imageMode !== 'forbidden' && (style.minImages ?? 1) <= 1
+  }
+
+  // 为批量任务填充风格的 prompt 与默认生成参数
+  function prepareItem(session: Session, style: StyleConfig, text: string, label: string, input: number): BatchItem | string {
+    const params = resolveParams(session, {}, style)
+    if (typeof params === 'string') return session.text('yunwu-figurine.task.reason', [style.commandName, params])
+    try {
+      const prompt = renderPrompt(localizeStyle(style, localesOf(session)), { args: text ? text.split(' ') : [], options: {}, nickname: session.username })
+      return { label, style, prompt, params, input }
+    } catch (error) {
+      if (error instanceof TemplateError) {
+        return session.text('yunwu-figurine.task.reason', [style.commandName, session.text(`yunwu-figurine.template.${error.key}`, error.params)])
+      }
+      throw error
+    }
+  }
+
+  // 批量任务流程：占用一个任务槽依次生成，单项失败不影响其他项，完成后拼成带标签的对比图
+  async function runBatch(session: Session, task: BatchTask) {
+    const userId = session.userId!
+    const job = scheduler.create(userId, session.guildId, task.label)
+    if (!job) {
+      return session.text('yunwu-figurine.busy')
+    }
+    
+    const { signal } = job.controller
+    const timer = setTimeout(() => job.controller.abort(new JobTimeoutError()), config.commandTimeout * 1000 * task.items.length)
+    
+    logger.info('开始批量图像处理', { userId, jobId: job.id, label: task.label, items: task.items.map(item => item.label) })
+    
+    const costs = task.items.map(item => item.style.cost ?? 1)
+    const totalCost = costs.reduce((sum, cost) => sum + cost, 0)
+    let unusedCost = totalCost
+    let charge: QuotaCharge | undefined
+    
+    try {
+      const consumed = await quota.consume(session, totalCost)
+      if (typeof consumed === 'string') {
+        return consumed
+      }
+      charge = consumed
+      for (const item of task.items) {
+        accessControl.touch(session, accessOf(item.style.commandName, item.style))
+      }
+      
+      await session.send(task.startText)
+      
+      job.stage = 'downloading'
+      const images = await downloadImages(task.imageUrls, signal, task.links)
+      const sources = await storeImages(() => Promise.all(images.map(image => storage.save(image))), '输入图片')
+      
+      await scheduler.acquire(job, position => session.send(session.text('yunwu-figurine.task.queued', [position - 1])))
+      
+      job.stage = 'generating'
+      const cells: GridCell[] = []
+      const outputs: { label: string, ref: string, src: string }[] = []
+      for (const [index, item] of task.items.entries()) {
+        const startedAt = Date.now()
+        let ref: string | undefined
+        let src: string | undefined
+        let image: InputImage | undefined
+        let route: ProviderRoute | undefined
+        try {
+          const generated = await callImageEdit(item.prompt, [images[item.input]], 1, item.style, signal, undefined, item.params, {
+            platform: session.platform,
+            userId,
+            guildId: session.guildId || '',
+            style: item.style.commandName
+          })
+          route = generated.route
+          const [processed] = await output.process(generated.images.slice(0, 1), signal)
+          if (processed) {
+            image = processed.image
+            src = processed.src
+            ref = await storage.save(image)
+          } else {
+            logger.warn('模型未返回图片', { userId, jobId: job.id, label: item.label, category: generated.refusal?.category, reason: generated.refusal?.reason })
+          }
+        } catch (error) {
+          if (signal.aborted) throw error
+          logger.warn('批量任务中的一项失败', { userId, jobId: job.id, label: item.label, error })
+        }
+        
+        if (ref && src) {
+          unusedCost -= costs[index]
+          outputs.push({ label: item.label, ref, src })
+        }
+        cells.push(ref && image
+          ? { label: item.label, image: Buffer.from(image.data, 'base64') }
+          : { label: h.unescape(session.text('yunwu-figurine.batch.failed-cell', [item.label])) })
+        
+        await history.record({
+          platform: session.platform,
+          userId,
+          guildId: session.guildId || '',
+          channelId: session.channelId || '',
+          style: item.style.commandName,
+          prompt: item.prompt,
+          sources: sources[item.input] ? [sources[item.input]] : [],
+          outputs: ref ? [ref] : [],
+          provider: route?.provider || '',
+          model: route?.model || '',
+          numImages: 1,
+          params: item.params,
+          duration: Date.now() - startedAt,
+          status: ref ? 'success' : 'failed',
+        }).catch(error => {
+          logger.error('记录历史失败', { userId, error })
+        })
+      }
+      
+      signal.throwIfAborted()
+      if (!outputs.length) {
+        return session.text('yunwu-figurine.batch.failed', [labelOf(session, task.label)])
+      }
+      
+      job.stage = 'sending'
+      const grid = await composeGrid(cells)
+      const gridSrc = await output.host({ mimeType: 'image/jpeg', data: grid.toString('base64') })
+      await session.send([...h.parse(session.text('yunwu-figurine.batch.done', [labelOf(session, task.label), outputs.length, task.items.length])), h.image(gridSrc)])
+      
+      if (task.full) {
+        await session.send(h('message', { forward: true }, outputs.map(item => h('message', {}, [
+          h.text(item.label),
+          h.image(item.src)
+        ]))))
+      }
+    } catch (error) {
+      if (signal.reason instanceof JobTimeoutError) {
+        logger.warn('批量图像处理超时，已中止任务', { userId, jobId: job.id })
+        return session.text('yunwu-figurine.batch.timeout', [labelOf(session, task.label)])
+      }
+      if (signal.reason instanceof JobCancelledError) {
+        logger.info('批量图像处理任务已取消', { userId, jobId: job.id })
+        return session.text('yunwu-figurine.task.cancelled')
+      }
+      if (error instanceof ImageInputError) {
+        logger.info('输入图片不符合要求', { userId, jobId: job.id, reason: error.message })
+        return session.text(`yunwu-figurine.image.${error.key}`, error.params)
+      }
+      
+      logger.error('批量图像处理失败', { userId, jobId: job.id, error })
+      return session.text('yunwu-figurine.batch.error', [labelOf(session, task.label)])
+    } finally {
+      clearTimeout(timer)
+      scheduler.release(job)
+      // 退还未成功项的额度
+      if (charge && unusedCost > 0) {
+        await quota.refund(charge, unusedCost / totalCost).catch(error => {
+          logger.error('退还额度失败', { userId, error })
+        })
+      }
+    }
+  }
+
+  // 风格对比：多个风格处理同一张图片
+  ctx.command('风格对比 [content:text]', inputCommand)
+    .option('styles', '-s <styles:string>')
+    .option('full', '-f')
+    .action(async ({ session, options }, content) => {
+      if (!session?.userId) return session?.text('yunwu-figurine.invalid-session')
+      
+      if (scheduler.has(session.userId)) {
+        return session.text('yunwu-figurine.busy')
+      }
+      
+      const names = options?.styles?.split(/[,，、\s]+/).filter(Boolean) || []
+      const selected: StyleConfig[] = []
+      if (names.length) {
+        for (const name of names) {
+          const style = styles.get(name)
+          if (!style?.enabled) return session.text('yunwu-figurine.style-not-found', [name])
+          if (!isBatchable(style)) return session.text('.unsupported', [name])
+          const denied = await accessControl.check(session, accessOf(name, style))
+          if (denied) return denied
+          if (!selected.includes(style)) selected.push(style)
+        }
+        if (selected.length > config.batchMaxItems) {
+          return session.text('.too-many', [config.batchMaxItems])
+        }
+      } else {
+        // 未指定时使用全部可用的风格，跳过当前无权使用或冷却中的风格
+        for (const style of styles.list()) {
+          if (selected.length >= config.batchMaxItems) break
+          if (!isBatchable(style)) continue
+          if (await accessControl.check(session, accessOf(style.commandName, style))) continue
+          selected.push(style)
+        }
+      }
+      if (selected.length < 2) {
+        return session.text('.too-few')
+      }
+      
+      const input = await inputs.resolve(session, content, { min: 1, max: 1 }, () => session.text('yunwu-figurine.send-image'))
+      if (typeof input === 'string') {
+        return input
+      }
+      
+      const items: BatchItem[] = []
+      for (const style of selected) {
+        const item = prepareItem(session, style, input.text, style.commandName, 0)
+        if (typeof item === 'string') return item
+        items.push(item)
+      }
+      
+      return runBatch(session, {
+        label: '风格对比',
+        imageUrls: input.images,
+        links: input.links,
+        items,
+        full: !!options?.full,
+        startText: session.text('.start', [selected.map(style => style.commandName).join(session.text('yunwu-figurine.enumeration'))])
+      })
+    })
+
+  // 批量处理：一个风格处理多张图片
+  ctx.command('批量处理 <style:string> [content:text]', inputCommand)
+    .option('full', '-f')
+    .action(async ({ session, options }, name, content) => {
+      if (!session?.userId) return session?.text('yunwu-figurine.invalid-session')
+      if (!name) return session.text('.no-style')
+      
+      if (scheduler.has(session.userId)) {
+        return session.text('yunwu-figurine.busy')
+      }
+      
+      const style = styles.get(name)
+      if (!style?.enabled) return session.text('yunwu-figurine.style-not-found', [name])
+      if (!isBatchable(style)) return session.text('.unsupported', [name])
+      const denied = await accessControl.check(session, accessOf(name, style))
+      if (denied) {
+        return denied
+      }
+      
+      const input = await inputs.resolve(session, content, { min: 2, max: config.batchMaxItems },
+        missing => session.text('.wait', [missing, config.batchMaxItems]))
+      if (typeof input === 'string') {
+        return input
+      }
+      
+      const items: BatchItem[] = []
+      for (const index of input.images.keys()) {
+        const item = prepareItem(session, style, input.text, `#${index + 1}`, index)
+        if (typeof item === 'string') return item
+        items.push(item)
+      }
+      
+      return runBatch(session, {
+        label: '批量处理',
+        imageUrls: input.images,
+        links: input.links,
+        items,
+        full: !!options?.full,
+        startText: session.text('.start', [name, input.images.length])
+      })
+    })
+
+  // 任务状态查询命令
+  ctx.command('图像处理.状态')
+    .action(async ({ session }) => {
+      if (!session?.userId) return session?.text('yunwu-figurine.invalid-session')
+      
+      const job = scheduler.get(session.userId)
+      
+      if (!job) {
+        return session.text('yunwu-figurine.no-job')
+      }
+      
+      const elapsed = Math.round((Date.now() - job.createdAt) / 1000)
+      const lines = [
+        session.text('.label', [labelOf(session, job.label)]),
+        session.text('.stage', [session.text(`yunwu-figurine.stage.${job.stage}`)]),
+        session.text('.elapsed', [elapsed])
+      ]
+      const position = scheduler.position(job)
+      if (position) {
+        lines.push(session.text('.position', [position]))
+      }
+      return lines.join('\n')
+    })
+
+  // 取消任务命令
+  ctx.command('图像处理.取消')
+    .action(async ({ session }) => {
+      if (!session?.userId) return session?.text('yunwu-figurine.invalid-session')
+      
+      if (!scheduler.cancel(session.userId)) {
+        return session.text('yunwu-figurine.no-job')
+      }
+      
+      return session.text('.cancelling')
+    })
+
+  // 额度查询命令
+  ctx.command('图像处理.额度')
+    .action(async ({ session }) => {
+      if (!session?.userId) return session?.text('yunwu-figurine.invalid-session')
+      if (!config.quotaEnabled) return session.text('.disabled')
+      
+      const lines = [session.text('.user'), formatBalance(session, await quota.balance('user', session.platform, session.userId))]
+      if (session.guildId) {
+        lines.push(session.text('.guild'), formatBalance(session, await quota.balance('guild', session.platform, session.guildId)))
+      }
+      return lines.join('\n')
+    })
+
+  // 解析额度管理命令的目标：-u 指定用户，-g 指定群组，缺省为当前群组
+  function resolveQuotaTarget(session: Session, options: { user?: string, guild?: string }) {
+    if (options.user) {
+      const [platform, ...rest] = options.user.split(':')
+      const id = rest.join(':')
+      return { scope: 'user' as const, platform, id, label: session.text('yunwu-figurine.quota.user-target', [id]) }
+    }
+    const guildId = options.guild || session.guildId
+    if (!guildId) return null
+    return { scope: 'guild' as const, platform: session.platform, id: guildId, label: session.text('yunwu-figurine.quota.guild-target', [guildId]) }
+  }
+
+  ctx.command('图像处理.额度.授予 <amount:integer>', { authority: config.quotaAdminAuthority })
+    .option('user', '-u <user:user>')
+    .option('guild', '-g <guild:string>')
+    .action(async ({ session, options }, amount) => {
+      if (!session) return
+      if (!amount) return session.text('.no-amount')
+      
+      const target = resolveQuotaTarget(session, options!)
+      if (!target) return session.text('yunwu-figurine.quota.no-target')
+      
+      const balance = await quota.grant(target.scope, target.platform, target.id, amount)
+      logger.info('授予图像处理额度', { operator: session.userId, target, amount })
+      return `${session.text('.granted', [target.label, amount])}\n${formatBalance(session, balance)}`
+    })
+
+  ctx.command('图像处理.额度.重置', { authority: config.quotaAdminAuthority })
+    .option('user', '-u <user:user>')
+    .option('guild', '-g <guild:string>')
+    .option('bonus', '-b')
+    .action(async ({ session, options }) => {
+      if (!session) return
+      
+      const target = resolveQuotaTarget(session, options!)
+      if (!target) return session.text('yunwu-figurine.quota.no-target')
+      
+      const balance = await quota.reset(target.scope, target.platform, target.id, options?.bonus)
+      logger.info('重置图像处理额度', { operator: session.userId, target, bonus: !!options?.bonus })
+      return `${session.text('.reset', [target.label])}\n${formatBalance(session, balance)}`
+    })
+
+  ctx.command('图像处理.额度.查看', { authority: config.quotaAdminAuthority })
+    .option('user', '-u <user:user>')
+    .option('guild', '-g <guild:string>')
+    .action(async ({ session, options }) => {
+      if (!session) return
+      
+      const target = resolveQuotaTarget(session, options!)
+      if (!target) return session.text('yunwu-figurine.quota.no-target')
+      
+      const balance = await quota.balance(target.scope, target.platform, target.id)
+      return `${target.label}\n${formatBalance(session, balance)}`
+    })
+
+  // 历史记录命令
+  ctx.command('图像处理.历史 [page:posint]')
+    .action(async ({ session }, page = 1) => {
+      if (!session?.userId) return session?.text('yunwu-figurine.invalid-session')
+      
+      const pageSize = 10
+      const records = await history.list(session, pageSize, (page - 1) * pageSize)
+      if (!records.length) {
+        return session.text(page === 1 ? '.empty' : '.no-more')
+      }
+      
+      const [locale] = localesOf(session).filter(Boolean)
+      const lines = records.map(record => session.text('.item', {
+        id: record.id,
+        style: labelOf(session, record.style),
+        status: session.text(`yunwu-figurine.status.${record.status}`),
+        count: record.outputs.length ? session.text('.count', [record.outputs.length]) : '',
+        time: record.createdAt.toLocaleString(locale, { hour12: false })
+      }))
+      lines.push(session.text('.hint'))
+      return lines.join('\n')
+    })
+
+  ctx.command('图像处理.重发 <id:posint>')
+    .action(async ({ session }, id) => {
+      if (!session?.userId) return session?.text('yunwu-figurine.invalid-session')
+      if (!id) return session.text('yunwu-figurine.record.no-id')
+      
+      const record = await history.get(session, id)
+      if (!record) return session.text('yunwu-figurine.record.not-found')
+      if (!record.outputs.length) return session.text('.no-outputs')
+      
+      let images: string[]
+      try {
+        images = await hostStored(record.outputs)
+      } catch (error) {
+        logger.warn('读取历史结果失败', { userId: session.userId, id, error })
+        return session.text('.unavailable')
+      }
+      await sendResults(session, images, record.outputs.length, session.text('.summary', [id, labelOf(session, record.style)]))
+    })
+
+  // 使用历史记录中保存的输入图片重新生成
+  async function rerun(session: Session, id: number, styleName: string | undefined, numImages?: number) {
+    const record = await history.get(session, id)
+    if (!record) return session.text('yunwu-figurine.record.not-found')
+    if (!record.sources.length) return session.text('yunwu-figurine.record.no-sources')
+    
+    if (scheduler.has(session.userId!)) {
+      return session.text('yunwu-figurine.busy')
+    }
+    
+    const imageCount = numImages || config.defaultNumImages
+    if (imageCount < 1 || imageCount > 4) {
+      return session.text('yunwu-figurine.invalid-count')
+    }
+    
+    const name = styleName || record.style
+    const found = styles.get(name)
+    const style = found?.enabled ? found : undefined
+    if (styleName && !style) {
+      return session.text('yunwu-figurine.style-not-found', [styleName])
+    }
+    
+    // 重做沿用记录中已填充的 prompt 与生成参数，换风格时使用新风格的默认值
+    let prompt = record.prompt
+    let params: GenerationParams | string = record.params || {}
+    if (styleName && style) {
+      params = resolveParams(session, {}, style)
+      if (typeof params === 'string') return params
+      try {
+        prompt = renderPrompt(localizeStyle(style, localesOf(session)), { args: [], options: {}, nickname: session.username })
+      } catch (error) {
+        if (error instanceof TemplateError) return session.text(`yunwu-figurine.template.${error.key}`, error.params)
+        throw error
+      }
+    }
+    
+    return runTask(session, {
+      label: style?.commandName || record.style,
+      prompt,
+      sourceRefs: record.sources,
+      numImages: imageCount,
+      style,
+      params,
+      cost: style ? style.cost ?? 1 : config.customPromptCost,
+      startText: session.text('yunwu-figurine.record.start', [style?.commandName || labelOf(session, record.style), id]),
+      action: 'process'
+    })
+  }
+
+  ctx.command('图像处理.重做 <id:posint>')
+    .option('num', '-n <num:number>')
+    .action(async ({ session, options }, id) => {
+      if (!session?.userId) return session?.text('yunwu-figurine.invalid-session')
+      if (!id) return session.text('yunwu-figurine.record.no-id')
+      return rerun(session, id, undefined, options?.num)
+    })
+
+  ctx.command('图像处理.换风格 <id:posint> <style:string>')
+    .option('num', '-n <num:number>')
+    .action(async ({ session, options }, id, style) => {
+      if (!session?.userId) return session?.text('yunwu-figurine.invalid-session')
+      if (!id || !style) return session.text('.missing')
+      return rerun(session, id, style, options?.num)
+    })
+
+  // 继续编辑：在之前的对话基础上生成
+  async function continueEditing(session: Session, conversation: Conversation, prompt: string) {
+    if (conversations.isExhausted(conversation)) {
+      return session.text('yunwu-figurine.conversation.exhausted', [conversation.turns.length])
+    }
+    
+    const { style } = conversation
+    return runTask(session, {
+      label: conversation.label,
+      prompt,
+      conversation,
+      numImages: config.defaultNumImages,
+      style,
+      params: conversation.params,
+      cost: style ? style.cost ?? 1 : config.customPromptCost,
+      startText: session.text('yunwu-figurine.conversation.start', [conversation.turns.length + 1, prompt]),
+      action: 'process'
+    })
+  }
+
+  // 查找用户回复的机器人结果消息所属的对话，只有发起者本人可以继续编辑
+  function findConversation(session: Session) {
+    if (!config.continueEditing || !session.quote?.id) return
+    const conversation = conversations.find(session.platform, session.quote.id)
+    if (conversation?.userId !== session.userId) return
+    return conversation
+  }
+
+  // 回复机器人生成的图片并发送文字，即视为继续编辑
+  ctx.middleware(async (session, next) => {
+    if (!session.userId) return next()
+    
+    const conversation = findConversation(session)
+    if (!conversation) return next()
+    
+    const elements = session.elements || []
+    if (h.select(elements, 'img').length) return next()
+    // 群聊中普通的回复（如“哈哈”）不继续编辑，需要 @机器人 或称呼机器人
+    if (config.conversationTrigger === 'mention' && !session.isDirect && !session.stripped.appel) return next()
+    const prompt = h.select(h.parse(session.stripped.content), 'text').map(el => el.attrs.content).join(' ').trim()
+    if (!prompt) return next()
+    
+    if (scheduler.has(session.userId)) {
+      return session.text('yunwu-figurine.busy')
+    }
+    
+    return continueEditing(session, conversation, prompt)
+  })
+
+  ctx.setInterval(() => {
+    conversations.prune()
+    accessControl.prune()
+    cache.prune()
+    apiJobs.prune(3600000)
+  }, 60000)
+
+  ctx.setInterval(() => {
+    output.prune()
+  }, 3600000)
+
+  // 风格管理命令
+  ctx.command('图像处理.风格')
+    .action(async ({ session }) => {
+      if (!session) return
+      const list = styles.list()
+      if (!list.length) return session.text('.empty')
+      const locales = localesOf(session)
+      return list.map(style => session.text('.item', [
+        style.commandName,
+        style.enabled ? '' : session.text('.disabled'),
+        localizeStyle(style, locales).commandDescription || session.text('yunwu-figurine.style.default-description')
+      ])).join('\n')
+    })
+
+  ctx.command('图像处理.风格.查看 <name:string>', { authority: config.styleAdminAuthority })
+    .action(async ({ session }, name) => {
+      if (!session) return
+      const style = name && styles.get(name)
+      if (!style) return session.text('yunwu-figurine.style-not-found', [name])
+      
+      const comma = session.text('yunwu-figurine.comma')
+      const enumeration = session.text('yunwu-figurine.enumeration')
+      const lines = [
+        session.text('.name', [style.commandName]),
+        session.text('.description', [style.commandDescription || session.text('yunwu-figurine.style.default-description')]),
+        session.text('.status', [session.text(style.enabled ? '.enabled' : '.disabled')]),
+        session.text('.provider', [`${style.provider || config.defaultProvider}${style.model ? ` / ${style.model}` : ''}`]),
+        session.text('.cost', [style.cost ?? 1]),
+        session.text('.images', [session.text(`yunwu-figurine.image-mode.${style.imageMode || 'required'}`), style.minImages ?? 1, style.maxImages ?? 1]),
+        session.text('.access', {
+          authority: style.authority || 0,
+          private: session.text(style.privateChat === false ? '.unavailable' : '.available'),
+          user: style.userCooldown || 0,
+          guild: style.guildCooldown || 0
+        }),
+        session.text('.prompt', [style.prompt])
+      ]
+      for (const translation of style.translations || []) {
+        if (translation.prompt) lines.push(session.text('.translation', [translation.locale, translation.prompt]))
+      }
+      const generation = [
+        style.aspectRatio && session.text('.ratio', [style.aspectRatio]),
+        style.imageSize && session.text('.size', [style.imageSize]),
+        style.seed !== undefined && session.text('.seed', [style.seed]),
+        style.temperature !== undefined && session.text('.temperature', [style.temperature])
+      ].filter(Boolean)
+      if (generation.length) lines.push(session.text('.generation', [generation.join(comma)]))
+      if (style.negativePrompt) lines.push(session.text('.negative', [style.negativePrompt]))
+      if (style.allowGuilds?.length) lines.push(session.text('.allow-guilds', [style.allowGuilds.join(enumeration)]))
+      if (style.denyGuilds?.length) lines.push(session.text('.deny-guilds', [style.denyGuilds.join(enumeration)]))
+      if (style.allowChannels?.length) lines.push(session.text('.allow-channels', [style.allowChannels.join(enumeration)]))
+      if (style.denyChannels?.length) lines.push(session.text('.deny-channels', [style.denyChannels.join(enumeration)]))
+      const params = describeParams(session, style.params || [])
+      if (params) lines.push(params)
+      return lines.join('\n')
+    })
+
+  ctx.command('图像处理.风格.添加 <name:string> <prompt:text>', { authority: config.styleAdminAuthority })
+    .option('description', '-d <description:string>')
+    .action(async ({ session, options }, name, prompt) => {
+      if (!session) return
+      if (!name || !prompt) return session.text('.missing')
+      if (styles.get(name)) return session.text('yunwu-figurine.style.exists', [name])
+      if (styles.isTaken(name)) return session.text('yunwu-figurine.style.taken', [name])
+      
+      await styles.save({
+        commandName: name,
+        commandDescription: options?.description || '',
+        prompt,
+        enabled: true
+      })
+      logger.info('添加风格', { operator: session.userId, name })
+      return session.text('.added', [name])
+    })
+
+  ctx.command('图像处理.风格.编辑 <name:string> [prompt:text]', { authority: config.styleAdminAuthority })
+    .option('description', '-d <description:string>')
+    .option('provider', '--provider <provider:string>')
+    .option('model', '--model <model:string>')
+    .option('cost', '--cost <cost:natural>')
+    .option('image', '--image <mode:string>')
+    .option('authority', '--authority <level:natural>')
+    .option('userCooldown', '--user-cooldown <seconds:natural>')
+    .option('guildCooldown', '--guild-cooldown <seconds:natural>')
+    .action(async ({ session, options }, name, prompt) => {
+      if (!session) return
+      const style = name && styles.get(name)
+      if (!style) return session.text('yunwu-figurine.style-not-found', [name])
+      
+      const provider = options?.provider
+      if (provider && !(provider in providers)) {
+        return session.text('.unknown-provider', [provider])
+      }
+      const imageMode = options?.image
+      if (imageMode && !imageModes.includes(imageMode as ImageMode)) {
+        return session.text('.unknown-image-mode', [imageMode])
+      }
+      
+      const updated: StyleConfig = { ...style }
+      if (prompt) updated.prompt = prompt
+      if (options?.description) updated.commandDescription = options.description
+      if (provider) updated.provider = provider as ProviderName
+      if (options?.model) updated.model = options.model
+      if (options?.cost !== undefined) updated.cost = options.cost
+      if (imageMode) updated.imageMode = imageMode as ImageMode
+      if (options?.authority !== undefined) updated.authority = options.authority
+      if (options?.userCooldown !== undefined) updated.userCooldown = options.userCooldown
+      if (options?.guildCooldown !== undefined) updated.guildCooldown = options.guildCooldown
+      
+      await styles.save(updated)
+      logger.info('修改风格', { operator: session.userId, name })
+      return session.text('.updated', [name])
+    })
+
+  ctx.command('图像处理.风格.启用 <name:string>', { authority: config.styleAdminAuthority })
+    .action(async ({ session }, name) => {
+      if (!session) return
+      const style = name && styles.get(name)
+      if (!style) return session.text('yunwu-figurine.style-not-found', [name])
+      if (style.enabled) return session.text('.already', [name])
+      
+      await styles.save({ ...style, enabled: true })
+      return session.text('.enabled', [name])
+    })
+
+  ctx.command('图像处理.风格.禁用 <name:string>', { authority: config.styleAdminAuthority })
+    .action(async ({ session }, name) => {
+      if (!session) return
+      const style = name && styles.get(name)
+      if (!style) return session.text('yunwu-figurine.style-not-found', [name])
+      if (!style.enabled) return session.text('.already', [name])
+      
+      await styles.save({ ...style, enabled: false })
+      return session.text('.disabled', [name])
+    })
+
+  ctx.command('图像处理.风格.重命名 <name:string> <newName:string>', { authority: config.styleAdminAuthority })
+    .action(async ({ session }, name, newName) => {
+      if (!session) return
+      if (!name || !newName) return session.text('.missing')
+      if (!styles.get(name)) return session.text('yunwu-figurine.style-not-found', [name])
+      if (styles.get(newName)) return session.text('yunwu-figurine.style.exists', [newName])
+      if (styles.isTaken(newName)) return session.text('yunwu-figurine.style.taken', [newName])
+      
+      await styles.rename(name, newName)
+      logger.info('重命名风格', { operator: session.userId, name, newName })
+      return session.text('.renamed', [name, newName])
+    })
+
+  ctx.command('图像处理.风格.删除 <name:string>', { authority: config.styleAdminAuthority })
+    .action(async ({ session }, name) => {
+      if (!session) return
+      if (!name || !styles.get(name)) return session.text('yunwu-figurine.style-not-found', [name])
+      
+      await styles.remove(name)
+      logger.info('删除风格', { operator: session.userId, name })
+      return session.text('.removed', [name])
+    })
+
+  ctx.command('图像处理.风格.导出', { authority: config.styleAdminAuthority })
+    .option('format', '-f <format:string>', { fallback: 'yaml' })
+    .action(async ({ options }) => {
+      const format = options?.format === 'json' ? 'json' : 'yaml'
+      return h.text(styles.serialize(format))
+    })
+
+  ctx.command('图像处理.风格.导入 <content:text>', { authority: config.styleAdminAuthority })
+    .option('replace', '-r')
+    .action(async ({ session, options }, content) => {
+      if (!session) return
+      if (!content) return session.text('.missing')
+      
+      const list = styles.parse(h.unescape(content))
+      if (list instanceof StyleImportError) return session.text(`yunwu-figurine.style.${list.key}`, list.params)
+      
+      const taken = list.filter(style => styles.isTaken(style.commandName))
+      if (taken.length) {
+        return session.text('yunwu-figurine.style.taken', [taken.map(style => style.commandName).join(session.text('yunwu-figurine.enumeration'))])
+      }
+      
+      await styles.importStyles(list, !!options?.replace)
+      logger.info('导入风格', { operator: session.userId, count: list.length, replace: !!options?.replace })
+      return session.text('.imported', [list.length])
+    })
+
+  // 用量统计
+  const dimensions: UsageDimension[] = ['day', 'user', 'guild', 'style', 'model']
+  
+  function formatSummary(session: Session, summary: UsageSummary) {
+    const failureRate = summary.calls ? (summary.failed / summary.calls * 100).toFixed(1) : '0.0'
+    const parts = [
+      session.text('.calls', [summary.calls]),
+      session.text('.failure-rate', [failureRate]),
+      ...summary.refused ? [session.text('.refused', [summary.refused])] : [],
+      session.text('.images', [summary.images]),
+      session.text('.tokens', [summary.inputTokens, summary.outputTokens]),
+      session.text('.cost', [summary.cost.toFixed(2)]),
+    ]
+    return parts.join(session.text('yunwu-figurine.comma'))
+  }
+  
+  // 私聊与未知风格的分组键为空
+  function keyOf(session: Session, summary: UsageSummary, dimension: UsageDimension) {
+    if (summary.key) return summary.key
+    return session.text(dimension === 'guild' ? 'yunwu-figurine.usage.private' : 'yunwu-figurine.usage.unknown')
+  }
+  
+  ctx.command('图像处理.统计 [days:posint]', { authority: config.statsAuthority })
+    .option('by', '-b <dimension:string>')
+    .option('limit', '-l <count:posint>')
+    .option('csv', '--csv')
+    .action(async ({ session, options }, days = 7) => {
+      if (!session) return
+      const dimension = (options?.by || 'day') as UsageDimension
+      if (!dimensions.includes(dimension)) {
+        return session.text('.invalid-dimension')
+      }
+      
+      const since = new Date()
+      since.setHours(0, 0, 0, 0)
+      since.setDate(since.getDate() - days + 1)
+      const rows = await usage.list(since)
+      if (!rows.length) {
+        return session.text('.empty', [days])
+      }
+      
+      if (options?.csv) {
+        await session.send(h.file(Buffer.from(usage.toCsv(rows)), 'text/csv', { title: `yunwu-usage-${days}d.csv` }))
+        return
+      }
+      
+      const [total] = usage.summarize(rows)
+      const groups = usage.summarize(rows, dimension)
+        .sort((a, b) => dimension === 'day' ? b.key.localeCompare(a.key) : b.calls - a.calls)
+      const limit = options?.limit || 10
+      
+      const lines = [
+        session.text('.title', [days]),
+        formatSummary(session, total),
+        '',
+        session.text('.group', [session.text(`.dimensions.${dimension}`)]),
+        ...groups.slice(0, limit).map(summary => session.text('.item', [keyOf(session, summary, dimension), formatSummary(session, summary)])),
+      ]
+      if (groups.length > limit) {
+        lines.push(session.text('.more', [groups.length]))
+      }
+      return lines.join('\n')
+    })
+
+  // 密钥状态（不显示完整密钥）
+  ctx.command('图像处理.密钥', { authority: config.keyAdminAuthority })
+    .action(async ({ session }) => {
+      if (!session) return
+      const list = keys.status()
+      if (!list.length) return session.text('.empty')
+      
+      return list.map(item => {
+        const label = item.label || session.text(item.builtin ? '.default-key' : '.unnamed-key', [item.index])
+        const name = item.fingerprint ? session.text('.fingerprint', [label, item.fingerprint]) : label
+        const health = item.disabledFor > 0
+          ? session.text('.paused', [session.text(item.lastError === 'auth' ? '.auth' : '.quota'), Math.ceil(item.disabledFor / 60000)])
+          : session.text(item.dailyCap > 0 && item.used >= item.dailyCap ? '.capped' : '.normal')
+        const cap = item.dailyCap > 0 ? `${item.used}/${item.dailyCap}` : `${item.used}`
+        return session.text('.item', { index: item.index, name, health, weight: item.weight, cap, success: item.success, failed: item.failed })
+      }).join('\n')
+    })
+
+  ctx.command('图像处理.密钥.恢复 <index:posint>', { authority: config.keyAdminAuthority })
+    .action(async ({ session }, index) => {
+      if (!session) return
+      if (!index) return session.text('.no-index')
+      if (!keys.enable(index)) return session.text('.not-found', [index])
+      logger.info('手动恢复API密钥', { operator: session.userId, index })
+      return session.text('.enabled', [index])
+    })
+
+  // HTTP 接口：与聊天命令共用任务流程、额度、冷却与并发限制，令牌名称作为用户ID
+  ctx.inject(['server'], (ctx) => {
+    if (!config.apiEnabled) return
+    const base = config.apiPath.replace(/\/+$/, '')
+    
+    type KoaContext = Parameters<Parameters<typeof ctx.server.get>[1]>[0]
+    
+    // 请求的语言，取自 Accept-Language
+    function requestLocales(koa: KoaContext) {
+      return koa.acceptsLanguages().filter(locale => locale !== '*')
+    }
+    
+    function text(koa: KoaContext, path: string) {
+      return ctx.i18n.render(requestLocales(koa), [path], {}).join('')
+    }
+    
+    // 本地化文本为消息元素格式，返回给客户端前还原为纯文本
+    function reply(koa: KoaContext, status: number, error: string) {
+      koa.status = status
+      koa.body = { error: h.unescape(error) }
+    }
+    
+    // 校验令牌，失败时直接返回 401
+    function authorize(koa: KoaContext) {
+      const token = findToken(config.apiTokens, koa.get('authorization'))
+      if (!token) reply(koa, 401, text(koa, 'yunwu-figurine.api.invalid-token'))
+      return token
+    }
+    
+    // 表单字段都是字符串，空值视为未填写
+    function numberField(value: unknown) {
+      if (value === undefined || value === null || value === '') return
+      return Number(value)
+    }
+    
+    function describeJob(job: ApiJob) {
+      const running = job.status === 'running' ? scheduler.get(job.owner) : undefined
+      return {
+        id: job.id,
+        label: job.label,
+        status: job.status,
+        stage: running?.stage,
+        position: running ? scheduler.position(running) || undefined : undefined,
+        numImages: job.numImages,
+        messages: job.messages,
+        error: job.error,
+        results: job.images.map((_, index) => `${base}/jobs/${job.id}/results/${index}`),
+        createdAt: job.createdAt,
+        finishedAt: job.finishedAt,
+      }
+    }
+    
+    // 根据请求内容构造任务，请求无效时返回提示
+    async function prepareTask(session: TaskSession, token: ApiTokenConfig, body: Record<string, any>, imageUrls: string[], links: string[]): Promise<GenerationTask | string> {
+      const numImages = numberField(body.num) ?? config.defaultNumImages
+      if (!Number.isInteger(numImages) || numImages < 1 || numImages > 4) {
+        return session.text('yunwu-figurine.invalid-count')
+      }
+      
+      const seed = numberField(body.seed)
+      const temperature = numberField(body.temperature)
+      if (seed !== undefined && !Number.isInteger(seed)) return session.text('yunwu-figurine.api.invalid-seed')
+      if (Number.isNaN(temperature)) return session.text('yunwu-figurine.api.invalid-temperature')
+      const options: ParamOptions = {
+        ratio: body.ratio || undefined,
+        size: body.size || undefined,
+        seed,
+        temperature,
+        fresh: body.fresh === true || body.fresh === 'true',
+      }
+      
+      const prompt = typeof body.prompt === 'string' ? body.prompt.trim() : ''
+      if (!body.style) {
+        if (!prompt) return session.text('yunwu-figurine.api.missing-input')
+        if (imageUrls.length > 4) return session.text('yunwu-figurine.api.too-many-images')
+        const params = resolveParams(session, options)
+        if (typeof params === 'string') return params
+        
+        const label = !imageUrls.length ? '文生图' : imageUrls.length > 1 ? '合并' : '自定义prompt'
+        return {
+          label,
+          prompt,
+          imageUrls,
+          links,
+          numImages,
+          params,
+          fresh: options.fresh,
+          cost: config.customPromptCost,
+          startText: session.text('yunwu-figurine.api.start', [labelOf(session, label)]),
+          action: 'process'
+        }
+      }
+      
+      const style = styles.get(String(body.style))
+      if (!style?.enabled) return session.text('yunwu-figurine.style-not-found', [String(body.style)])
+      const params = resolveParams(session, options, style)
+      if (typeof params === 'string') return params
+      
+      const imageMode = style.imageMode || 'required'
+      const urls = imageMode === 'forbidden' ? [] : imageUrls
+      const min = imageMode === 'required' ? style.minImages ?? 1 : 0
+      const max = style.maxImages ?? 1
+      if (urls.length < min || urls.length > max) {
+        return session.text('yunwu-figurine.api.style-images', [style.commandName, min === max ? min : `${min}-${max}`])
+      }
+      
+      // prompt 作为模板的位置参数，params 为具名参数
+      let values = body.params || {}
+      if (typeof values === 'string') {
+        try {
+          values = JSON.parse(values)
+        } catch {
+          return session.text('yunwu-figurine.api.invalid-params')
+        }
+      }
+      try {
+        return {
+          label: style.commandName,
+          prompt: renderPrompt(localizeStyle(style, localesOf(session)), { args: prompt ? prompt.split(' ') : [], options: values, nickname: token.name }),
+          imageUrls: urls,
+          links,
+          numImages,
+          style,
+          params,
+          fresh: options.fresh,
+          cost: style.cost ?? 1,
+          startText: session.text('yunwu-figurine.api.start', [style.commandName]),
+          action: 'process'
+        }
+      } catch (error) {
+        if (error instanceof TemplateError) return session.text(`yunwu-figurine.template.${error.key}`, error.params)
+        throw error
+      }
+    }
+    
+    // 列出令牌可以使用的风格
+    ctx.server.get(`${base}/styles`, async (koa) => {
+      const token = authorize(koa)
+      if (!token) return
+      const locales = ctx.i18n.fallback(requestLocales(koa))
+      koa.body = styles.list()
+        .filter(style => style.enabled && (style.authority || 0) <= (token.authority ?? 1))
+        .map(style => ({
+          name: style.commandName,
+          description: localizeStyle(style, locales).commandDescription || text(koa, 'yunwu-figurine.style.default-description'),
+          imageMode: style.imageMode || 'required',
+          minImages: style.minImages ?? 1,
+          maxImages: style.maxImages ?? 1,
+          cost: style.cost ?? 1,
+          params: (style.params || []).map(({ name, description, default: value, choices }) => ({ name, description, default: value, choices })),
+        }))
+    })
+    
+    // 提交任务：JSON 或 multipart 表单，images 为图片链接，也可以直接上传图片文件
+    ctx.server.post(`${base}/jobs`, async (koa) => {
+      const token = authorize(koa)
+      if (!token) return
+      
+      const output: ApiOutput = { messages: [], images: [] }
+      const session = createApiSession(ctx, token, requestLocales(koa), output)
+      if (scheduler.has(token.name)) {
+        return reply(koa, 409, session.text('yunwu-figurine.api.busy'))
+      }
+      
+      const body: Record<string, any> = koa.request.body || {}
+      const links = [body.images ?? []].flat().filter((url): url is string => typeof url === 'string' && !!url)
+      for (const url of links) {
+        if (!await isPublicUrl(url)) return reply(koa, 400, session.text('yunwu-figurine.api.private-url', [url]))
+      }
+      const uploads = Object.values(koa.request.files || {}).flat()
+      const imageUrls: string[] = [
+        ...links,
+        ...await Promise.all(uploads.map(async file => {
+          const data = await readFile(file.filepath)
+          return `data:${file.mimetype || 'image/png'};base64,${data.toString('base64')}`
+        })),
+      ]
+      
+      const task = await prepareTask(session, token, body, imageUrls, links)
+      if (typeof task === 'string') {
+        return reply(koa, 400, task)
+      }
+      
+      const job = apiJobs.create(token.name, task.label, task.numImages, output)
+      const denied = await accessControl.check(session, accessOf(task.label, task.style))
+      if (denied) {
+        apiJobs.finish(job, h.unescape(denied))
+        return reply(koa, 403, denied)
+      }
+      
+      // 任务记录中的错误为纯文本
+      logger.info('收到 HTTP 任务', { token: token.name, jobId: job.id, label: task.label, imageCount: imageUrls.length })
+      runTask(session, task).then(error => apiJobs.finish(job, error ? h.unescape(error) : undefined), error => {
+        logger.error('HTTP 任务失败', { token: token.name, jobId: job.id, error })
+        apiJobs.finish(job, h.unescape(session.text('yunwu-figurine.task.retry', [session.text(`yunwu-figurine.task.${task.action}.failed`)])))
+      })
+      
+      koa.status = 202
+      koa.body = describeJob(job)
+    })
+    
+    // 查询任务状态
+    ctx.server.get(`${base}/jobs/:id`, async (koa) => {
+      const token = authorize(koa)
+      if (!token) return
+      const job = apiJobs.get(koa.params.id, token.name)
+      if (!job) return reply(koa, 404, text(koa, 'yunwu-figurine.api.job-not-found'))
+      koa.body = describeJob(job)
+    })
+    
+    // 下载生成结果，远程地址重定向
+    ctx.server.get(`${base}/jobs/:id/results/:index`, async (koa) => {
+      const token = authorize(koa)
+      if (!token) return
+      const src = apiJobs.get(koa.params.id, token.name)?.images[Number(koa.params.index)]
+      if (!src) return reply(koa, 404, text(koa, 'yunwu-figurine.api.result-not-found'))
+      
+      const result = readResult(src)
+      if (typeof result === 'string') return koa.redirect(result)
+      koa.type = result.mimeType
+      koa.body = result.data
+    })
+    
+    logger.info('HTTP 接口已启用', { path: base })
+  })
+
+  ctx.on('dispose', () => {
+    disposing = true
+    scheduler.dispose()
+  })
 
   logger.info('云雾图像处理插件已启动 (Gemini 2.5 Flash Image)')
 }
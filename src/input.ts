@@ -0,0 +1,150 @@
+import { Element, h, Logger, Session } from 'koishi'
+import { isPublicUrl } from './network'
+
+export interface InputLimits {
+  min: number           // 最少输入图片数
+  max: number           // 最多输入图片数，超出时只取前面的图片
+}
+
+export interface ResolvedInput {
+  images: string[]      // 图片地址（消息图片、头像、文字中的链接）
+  links: string[]       // 其中来自文字的链接，下载时只允许连接公网地址
+  text: string          // 去除图片与链接后的文字
+}
+
+const urlPattern = /https?:\/\/[^\s<>"']+/g
+
+// 统一的输入解析：命令参数、引用消息、转发消息中的图片，@ 用户的头像，以及文字中的图片链接
+export function createInputResolver(logger: Logger) {
+  // 获取 @ 用户的头像
+  async function getAvatar(session: Session, userId: string) {
+    try {
+      const user = await session.bot.getUser(userId, session.guildId)
+      if (user?.avatar) return user.avatar
+    } catch (error) {
+      logger.debug('获取用户头像失败', { userId, error })
+    }
+    // QQ 平台的头像地址可直接拼接
+    if (['onebot', 'qq', 'red', 'chronocat'].includes(session.platform)) {
+      return `https://q1.qlogo.cn/g?b=qq&nk=${userId}&s=640`
+    }
+  }
+
+  // 读取只带 ID 的合并转发消息（OneBot 等平台）
+  async function getForwardImages(session: Session, id: string) {
+    const internal = session.bot.internal as any
+    if (typeof internal?.getForwardMsg !== 'function') return []
+    try {
+      const nodes = await internal.getForwardMsg(id)
+      const images: string[] = []
+      for (const node of Array.isArray(nodes) ? nodes : nodes?.messages || []) {
+        const content = node?.content ?? node?.message
+        if (typeof content === 'string') {
+          images.push(...h.select(h.parse(content), 'img').map(el => el.attrs.src))
+        } else if (Array.isArray(content)) {
+          for (const segment of content) {
+            if (segment?.type === 'image') images.push(segment.data?.url || segment.data?.file)
+          }
+        }
+      }
+      return images.filter(Boolean)
+    } catch (error) {
+      logger.debug('读取合并转发消息失败', { id, error })
+      return []
+    }
+  }
+
+  // 从一组消息元素中收集图片与文字，引用消息只读取其中的图片与转发消息
+  async function collect(session: Session, elements: Element[], quoted = false): Promise<ResolvedInput> {
+    const images: string[] = []
+    const links: string[] = []
+    const texts: string[] = []
+
+    // 图片（包含嵌套在转发消息中的图片）
+    for (const el of h.select(elements, 'img, image')) {
+      const src = el.attrs.src || el.attrs.url
+      if (src) images.push(src)
+    }
+
+    // 只带 ID 的转发消息
+    for (const el of h.select(elements, 'forward')) {
+      if (el.attrs.id && !el.children.length) {
+        images.push(...await getForwardImages(session, el.attrs.id))
+      }
+    }
+
+    if (quoted) return { images, links, text: '' }
+
+    // @ 用户的头像，忽略 @ 机器人自身
+    for (const el of h.select(elements, 'at')) {
+      const id = el.attrs.id
+      if (!id || id === session.selfId) continue
+      const avatar = await getAvatar(session, id)
+      if (avatar) images.push(avatar)
+    }
+
+    // 文字中的图片链接，指向本机或内网的链接被忽略
+    let blocked = 0
+    for (const el of h.select(elements, 'text')) {
+      const content: string = el.attrs.content || ''
+      for (const url of content.match(urlPattern) || []) {
+        if (await isPublicUrl(url)) {
+          images.push(url)
+          links.push(url)
+        } else {
+          blocked++
+        }
+      }
+      texts.push(content.replace(urlPattern, ' '))
+    }
+    if (blocked) {
+      logger.info('忽略指向本机或内网的图片链接', { userId: session.userId, count: blocked })
+      await session.send(session.text('yunwu-figurine.input.private-url'))
+    }
+
+    return { images, links, text: texts.join(' ').replace(/\s+/g, ' ').trim() }
+  }
+
+  // 命令参数与引用消息中的图片，文字只取自命令参数
+  async function fromCommand(session: Session, content: string | undefined): Promise<ResolvedInput> {
+    const fromArgs = await collect(session, content ? h.parse(content) : [])
+    const fromQuote = session.quote?.elements ? await collect(session, session.quote.elements, true) : undefined
+    const images = [...fromArgs.images, ...fromQuote?.images || []]
+    if (images.length) {
+      logger.debug('从命令参数与引用消息获取图片', { count: images.length })
+    }
+    return { images, links: fromArgs.links, text: fromArgs.text }
+  }
+
+  // 解析命令参数与引用消息，图片不足时提示用户发送
+  async function resolve(session: Session, content: string | undefined, limits: InputLimits, waitText?: (missing: number) => string): Promise<ResolvedInput | string> {
+    const { images, links, text } = await fromCommand(session, content)
+
+    if (images.length < limits.min && waitText) {
+      await session.send(waitText(limits.min - images.length))
+      const msg = await session.prompt(30000)
+      if (!msg) return session.text('yunwu-figurine.input.timeout')
+
+      const fromPrompt = await collect(session, h.parse(msg))
+      images.push(...fromPrompt.images)
+      links.push(...fromPrompt.links)
+      logger.debug('从用户输入获取图片', { count: fromPrompt.images.length })
+    }
+
+    if (images.length < limits.min) {
+      return limits.min > 1
+        ? session.text('yunwu-figurine.input.need-images', [limits.min, images.length])
+        : session.text('yunwu-figurine.input.no-image')
+    }
+
+    if (images.length > limits.max) {
+      logger.debug('输入图片超出上限，只取前几张', { count: images.length, max: limits.max })
+    }
+
+    return { images: images.slice(0, limits.max), links, text }
+  }
+
+  return { collect, fromCommand, resolve }
+}
+
+export type InputResolver = ReturnType<typeof createInputResolver>
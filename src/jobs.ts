@@ -0,0 +1,78 @@
+import { Context } from 'koishi'
+import { GenerationParams } from './config'
+import { QuotaCharge } from './quota'
+
+declare module 'koishi' {
+  interface Tables {
+    yunwu_job: YunwuJob
+  }
+}
+
+// 任务的完成与失败提示，对应本地化文本 yunwu-figurine.task.<action>.*
+export type TaskAction = 'process' | 'generate' | 'merge'
+
+// 进行中的任务，插件停用或重启后据此恢复，或通知用户任务已中断
+export interface YunwuJob {
+  id: number
+  platform: string
+  selfId: string        // 接收指令的机器人
+  userId: string
+  guildId: string
+  channelId: string
+  messageId: string     // 原始指令消息，通知时引用
+  label: string
+  action: TaskAction | ''   // 恢复时沿用的提示，升级前保存的记录为空
+  style: string         // 风格命令名，非风格任务为空
+  prompt: string
+  sources: string[]     // 输入图片的存储引用
+  numImages: number
+  params: GenerationParams
+  charge: QuotaCharge   // 已扣除的额度，任务中断时退还
+  background: boolean   // 是否已转入后台
+  createdAt: Date
+}
+
+export function createJobStore(ctx: Context) {
+  ctx.model.extend('yunwu_job', {
+    id: 'unsigned',
+    platform: 'string',
+    selfId: 'string',
+    userId: 'string',
+    guildId: 'string',
+    channelId: 'string',
+    messageId: 'string',
+    label: 'string',
+    action: 'string',
+    style: 'string',
+    prompt: 'text',
+    sources: 'list',
+    numImages: 'unsigned',
+    params: 'json',
+    charge: 'json',
+    background: 'boolean',
+    createdAt: 'timestamp',
+  }, {
+    autoInc: true,
+  })
+
+  async function create(data: Omit<YunwuJob, 'id' | 'createdAt'>) {
+    const row = await ctx.database.create('yunwu_job', { ...data, createdAt: new Date() })
+    return row.id
+  }
+
+  async function update(id: number, data: Partial<Omit<YunwuJob, 'id'>>) {
+    await ctx.database.set('yunwu_job', { id }, data)
+  }
+
+  async function remove(id: number) {
+    await ctx.database.remove('yunwu_job', { id })
+  }
+
+  async function list() {
+    return ctx.database.get('yunwu_job', {})
+  }
+
+  return { create, update, remove, list }
+}
+
+export type JobStore = ReturnType<typeof createJobStore>
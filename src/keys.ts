@@ -0,0 +1,170 @@
+import { Logger } from 'koishi'
+import { ApiKeyConfig, Config } from './config'
+import { dayOf, untilTomorrow } from './dates'
+import { ProviderError } from './providers/errors'
+
+interface KeyState {
+  index: number
+  config: ApiKeyConfig
+  day: string
+  used: number          // 今日请求次数
+  success: number
+  failed: number
+  current: number       // 平滑加权轮询的当前权重
+  disabledUntil: number
+  lastError?: string    // 最近一次使密钥暂停的错误类型
+}
+
+export interface KeyLease {
+  key: string
+  state: KeyState
+}
+
+export interface KeyStatus {
+  index: number
+  label?: string        // 配置的备注名称，未填写时由调用方按编号显示
+  builtin: boolean      // 来自 apiKey 配置项的默认密钥
+  fingerprint: string   // 密钥末尾几位，用于区分，不显示完整密钥
+  weight: number
+  dailyCap: number
+  used: number
+  success: number
+  failed: number
+  disabledFor: number   // 剩余暂停时间（毫秒），0 表示可用
+  lastError?: string
+}
+
+// 密钥池：按轮询或权重分配请求，认证失败或额度不足的密钥暂时移出轮换
+export function createKeyPool(config: Config, logger: Logger) {
+  const configs: ApiKeyConfig[] = [
+    ...config.apiKey ? [{ key: config.apiKey }] : [],
+    ...(config.apiKeys || []).filter(item => item?.key),
+  ]
+  const states: KeyState[] = configs.map((item, index) => ({
+    index,
+    config: item,
+    day: dayOf(),
+    used: 0,
+    success: 0,
+    failed: 0,
+    current: 0,
+    disabledUntil: 0,
+  }))
+  let cursor = 0
+
+  // 跨天后清零当日次数
+  function refresh(state: KeyState) {
+    const day = dayOf()
+    if (state.day === day) return
+    state.day = day
+    state.used = 0
+  }
+
+  function isAvailable(state: KeyState, now: number) {
+    refresh(state)
+    if (state.disabledUntil > now) return false
+    const cap = state.config.dailyCap || 0
+    return cap <= 0 || state.used < cap
+  }
+
+  // 平滑加权轮询：每次所有可用密钥累加权重，选出当前权重最大的一个并减去总权重
+  function pickWeighted(available: KeyState[]) {
+    let total = 0
+    let best: KeyState | undefined
+    for (const state of available) {
+      const weight = Math.max(1, state.config.weight ?? 1)
+      state.current += weight
+      total += weight
+      if (!best || state.current > best.current) best = state
+    }
+    best!.current -= total
+    return best!
+  }
+
+  function pickRoundRobin() {
+    const now = Date.now()
+    for (let offset = 0; offset < states.length; offset++) {
+      const state = states[(cursor + offset) % states.length]
+      if (isAvailable(state, now)) {
+        cursor = (state.index + 1) % states.length
+        return state
+      }
+    }
+  }
+
+  // 取出一个可用的密钥，全部不可用时抛出额度错误，retryAfter 为最早恢复的时间
+  function acquire(): KeyLease {
+    const now = Date.now()
+    const state = config.keyStrategy === 'weighted'
+      ? (() => {
+        const available = states.filter(item => isAvailable(item, now))
+        return available.length ? pickWeighted(available) : undefined
+      })()
+      : pickRoundRobin()
+
+    if (!state) {
+      const waits = states.map(item => {
+        if (item.disabledUntil > now) return item.disabledUntil - now
+        return untilTomorrow()
+      })
+      logger.warn('没有可用的API密钥', { total: states.length })
+      throw new ProviderError(states.length ? 'quota' : 'auth', undefined, waits.length ? Math.min(...waits) : undefined)
+    }
+
+    state.used++
+    return { key: state.config.key, state }
+  }
+
+  function success(lease: KeyLease) {
+    lease.state.success++
+  }
+
+  // 认证失败或额度不足时暂停该密钥，限流时优先按 Retry-After 恢复
+  function failure(lease: KeyLease, error: ProviderError) {
+    const { state } = lease
+    state.failed++
+    if (error.kind !== 'auth' && error.kind !== 'quota') return
+
+    const cooldown = config.keyCooldown * 60000
+    const duration = error.kind === 'quota' && error.retryAfter ? Math.max(error.retryAfter, 1000) : cooldown
+    state.disabledUntil = Date.now() + duration
+    state.lastError = error.kind
+    logger.warn('API密钥暂停使用', { key: label(state), kind: error.kind, status: error.status, duration })
+  }
+
+  function label(state: KeyState) {
+    return state.config.label || `#${state.index + 1}`
+  }
+
+  function status(): KeyStatus[] {
+    const now = Date.now()
+    return states.map(state => {
+      refresh(state)
+      return {
+        index: state.index + 1,
+        label: state.config.label,
+        builtin: !!config.apiKey && state.index === 0,
+        fingerprint: state.config.key.length > 8 ? state.config.key.slice(-4) : '',
+        weight: Math.max(1, state.config.weight ?? 1),
+        dailyCap: state.config.dailyCap || 0,
+        used: state.used,
+        success: state.success,
+        failed: state.failed,
+        disabledFor: Math.max(0, state.disabledUntil - now),
+        lastError: state.disabledUntil > now ? state.lastError : undefined,
+      }
+    })
+  }
+
+  // 手动恢复被暂停的密钥
+  function enable(index: number) {
+    const state = states[index - 1]
+    if (!state) return false
+    state.disabledUntil = 0
+    return true
+  }
+
+  return { acquire, success, failure, status, enable, size: () => states.length }
+}
+
+export type KeyPool = ReturnType<typeof createKeyPool>
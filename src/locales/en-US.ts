@@ -0,0 +1,512 @@
+// English: {0} and {name} are parameters, angle brackets must be escaped as &lt; &gt;
+
+// Options shared by the generation commands
+export const generationOptions = {
+  num: 'Number of images to generate (1-4)',
+  ratio: 'Aspect ratio, e.g. 16:9, 9:16, 1:1',
+  size: 'Output resolution, e.g. 1K, 2K, 4K',
+  seed: 'Random seed',
+  temperature: 'Sampling temperature (0-2)',
+  fresh: 'Ignore cached results and generate again',
+}
+
+// Commands that support the prompt assistant
+const assistedOptions = {
+  ...generationOptions,
+  raw: 'Skip the prompt assistant and submit the prompt as is',
+}
+
+const quotaTargetOptions = {
+  user: 'Target user',
+  guild: 'Target guild ID',
+}
+
+export default {
+  'yunwu-figurine': {
+    'invalid-session': 'Invalid session.',
+    busy: 'You already have an image task in progress. Please wait for it to finish.',
+    'invalid-count': 'The number of images must be between 1 and 4.',
+    'style-not-found': 'Style not found: {0}',
+    'no-job': 'You have no image task in progress.',
+    'send-image': 'Please send an image within 30 seconds.',
+    'send-images': 'Please send {0} images within 30 seconds.',
+    comma: ', ',
+    enumeration: ', ',
+    labels: {
+      custom: 'Custom prompt',
+      merge: 'Merge',
+      'text-to-image': 'Text to image',
+      compare: 'Style comparison',
+      batch: 'Batch processing',
+      describe: 'Describe image',
+    },
+    input: {
+      timeout: 'Timed out waiting for input. Please try again.',
+      'no-image': 'No image detected. Please try again.',
+      'need-images': 'At least {0} images are required, but only {1} were received.',
+      received: 'Received {0} images. Send more images, or send the prompt text.',
+      'no-content': 'Nothing usable was detected. Please send it again.',
+      'no-prompt': 'No prompt detected. Please send it again.',
+      'private-url': 'Ignored image links that point to local or private network addresses.',
+    },
+    image: {
+      'download-failed': 'Failed to download the image. Please check that the link is valid.',
+      'private-url': 'The image link points to a local or private network address and was rejected.',
+      'not-image': 'The file is not a valid image. Please send a JPG, PNG, WebP or GIF image.',
+      'too-large': 'The image is too large ({0} MB). Please send an image no larger than {1} MB.',
+      unreadable: 'The image could not be read. Please try another one.',
+    },
+    template: {
+      'invalid-choice': 'Parameter {0} must be one of: {1}',
+    },
+    params: {
+      'ratio-unsupported': 'Model {0} does not support aspect ratio {1}. Available: {2}',
+      'ratio-unavailable': 'Model {0} does not support setting the aspect ratio.',
+      'size-unsupported': 'Model {0} does not support resolution {1}. Available: {2}',
+      'size-unavailable': 'Model {0} does not support setting the resolution.',
+      'seed-unavailable': 'Model {0} does not support setting a random seed.',
+      'temperature-unavailable': 'Model {0} does not support setting the sampling temperature.',
+      'temperature-range': 'The sampling temperature must be between 0 and 2.',
+      header: 'Parameters (write them after the image in order, or use --name &lt;value&gt;):',
+      choices: 'choices: {0}',
+      default: 'default: {0}',
+      random: 'random by default',
+    },
+    access: {
+      private: '"{0}" is not available in private chats. Please use it in a group.',
+      guild: '"{0}" is not available in this group.',
+      channel: '"{0}" is not available in this channel.',
+      authority: 'Permission denied: "{0}" requires authority level {1}.',
+      'user-cooldown': '"{0}" is cooling down. Please try again in {1} seconds.',
+      'guild-cooldown': '"{0}" is cooling down in this group. Please try again in {1} seconds.',
+    },
+    quota: {
+      'user-insufficient': 'You do not have enough image quota ({0} left, {1} required).',
+      'guild-insufficient': 'This group does not have enough image quota ({0} left, {1} required).',
+      daily: 'Used today: {0}',
+      monthly: 'Used this month: {0}',
+      bonus: 'Bonus quota: {0}',
+      remaining: 'Available: {0}',
+      limit: '{0}/{1}',
+      unlimited: 'unlimited',
+      'user-target': 'user {0}',
+      'guild-target': 'group {0}',
+      'no-target': 'Please specify a user with -u or a group with -g.',
+    },
+    provider: {
+      auth: 'The image service rejected our credentials. Please ask an administrator to check the API keys.',
+      quota: 'The upstream quota is exhausted or requests are too frequent. Please try again later.',
+      invalid: 'The image service did not accept the request. Please adjust the prompt or image and try again.',
+      upstream: 'The image service is temporarily unavailable. Please try again later.',
+      network: 'Timed out connecting to the image service. Please try again later.',
+      unknown: 'The image API call failed.',
+    },
+    'circuit-open': 'The image service is temporarily unavailable. Please try again in {0} seconds.',
+    refusal: {
+      prompt_blocked: 'The prompt or image did not pass the safety review. Please modify it and try again.',
+      safety: 'The generated content did not pass the safety review. Please adjust the prompt or use another image.',
+      recitation: 'The generated content may contain copyrighted material and was blocked.',
+      truncated: 'The model output was truncated, so no image was generated.',
+      text_only: 'The model did not return an image.',
+      other: 'No image was generated.',
+    },
+    task: {
+      process: {
+        done: 'Image processing complete!',
+        failed: 'Image processing failed',
+        timeout: 'Image processing timed out. Please try again.',
+      },
+      generate: {
+        done: 'Image generation complete!',
+        failed: 'Image generation failed',
+        timeout: 'Image generation timed out. Please try again.',
+      },
+      merge: {
+        done: 'Images merged!',
+        failed: 'Image merging failed',
+        timeout: 'Image merging timed out. Please try again.',
+      },
+      'start-image': 'Processing image ({0})...',
+      'start-text': 'Generating image ({0})...',
+      partial: '{0} ({1}/{2} images succeeded)',
+      reason: '{0}: {1}',
+      'model-reply': 'Model reply: {0}',
+      retry: '{0}. Please try again later.',
+      cancelled: 'The task was cancelled.',
+      queued: 'Queued, {0} tasks ahead of you.',
+      background: 'This is taking a while, so the task will continue in the background. You will be notified here when it finishes.',
+      resuming: 'Resuming the task interrupted by a restart ({0})...',
+      interrupted: 'The task interrupted by a restart ({0}) was cancelled and your quota was refunded. Please submit it again.',
+    },
+    assist: {
+      instruction: 'You are a prompt assistant for image editing. Rewrite the request as a specific, clear English prompt, adding style, composition, lighting and detail while keeping the original intent. Output only the prompt itself, without any explanation.',
+      describe: 'Describe this image in English, covering the subject, scene, composition, colors, lighting and visual style.',
+      suggest: 'Write an English prompt for this image that could be given to an image generation model, covering the subject, style, composition, colors and lighting. Output only the prompt itself, without any explanation.',
+    },
+    batch: {
+      done: '{0} complete ({1}/{2} images succeeded)',
+      failed: '{0} failed: no image was generated.',
+      timeout: '{0} timed out. Please use fewer items and try again.',
+      error: '{0} failed. Please try again later.',
+      'failed-cell': '{0} (failed)',
+    },
+    record: {
+      'no-id': 'Please specify a record number.',
+      'not-found': 'Record not found.',
+      'no-sources': 'This record has no saved input images and cannot be regenerated.',
+      start: 'Processing image ({0}, from record #{1})...',
+    },
+    conversation: {
+      exhausted: 'This image has already been edited {0} times in a row. Please start over with a style command or "生成图像".',
+      start: 'Continuing the edit (round {0})...\nPrompt: {1}',
+    },
+    stage: {
+      downloading: 'downloading images',
+      queued: 'queued',
+      generating: 'generating',
+      sending: 'sending',
+    },
+    status: {
+      success: 'succeeded',
+      partial: 'partially succeeded',
+      failed: 'failed',
+      timeout: 'timed out',
+      cancelled: 'cancelled',
+    },
+    'image-mode': {
+      required: 'required',
+      optional: 'optional',
+      forbidden: 'not accepted',
+    },
+    style: {
+      'default-description': 'Image style conversion',
+      exists: 'Style already exists: {0}',
+      taken: 'Command name already in use: {0}',
+      'invalid-format': 'Could not parse the content. Please check the JSON/YAML format.',
+      'missing-fields': 'Every imported style needs a commandName and a prompt.',
+      'invalid-item': 'Style #{0} "{1}" is invalid: {2}',
+    },
+    usage: {
+      private: 'private chat',
+      unknown: 'unknown',
+    },
+    api: {
+      'invalid-token': 'Invalid token',
+      busy: 'This token already has an image task in progress. Please wait for it to finish.',
+      'job-not-found': 'Job not found',
+      'result-not-found': 'Result not found',
+      'invalid-seed': 'The random seed must be an integer',
+      'invalid-temperature': 'The sampling temperature must be a number',
+      'invalid-params': 'params must be a JSON object',
+      'missing-input': 'Please provide a style name or a prompt',
+      'too-many-images': 'At most 4 images are supported',
+      'private-url': 'Unsupported image link, only public http(s) addresses are allowed: {0}',
+      'style-images': 'Style {0} requires {1} images',
+      start: 'Processing ({0})...',
+    },
+  },
+  commands: {
+    '生成图像': {
+      description: 'Edit images with a custom prompt',
+      options: assistedOptions,
+      messages: {
+        'ask-instruction': 'Please send your instructions. The edit will build on this image.',
+        'no-instruction': 'No instructions detected. Please send them again.',
+        intro: 'Please send images and a prompt, in either of two ways:\n1. Together: [image] + prompt\n2. Step by step: send the images first, then the prompt text\n\nExample: [image] turn this picture into an oil painting',
+        start: 'Processing images (custom prompt)...\nPrompt: {0}',
+        'start-assisted': 'Processing images (custom prompt)...\nOriginal: {0}\nPrompt: {1}',
+      },
+    },
+    '文生图': {
+      description: 'Generate images from a text description',
+      options: generationOptions,
+      messages: {
+        ask: 'Please describe the image, e.g. an orange cat drinking coffee on the moon, watercolor style',
+        'no-description': 'No description detected. Please send it again.',
+        start: 'Generating images...\nPrompt: {0}',
+      },
+    },
+    '合并': {
+      description: 'Merge several images, controlled by a custom prompt',
+      options: assistedOptions,
+      messages: {
+        intro: 'Please send several images and a prompt, in either of two ways:\n1. Together: [image 1] [image 2]... + prompt\n2. Step by step: send the images first, then the prompt text\n\nExample: [image 1] [image 2] merge these two pictures into one',
+        start: 'Merging images ({0} images)...\nPrompt: {1}',
+        'start-assisted': 'Merging images ({0} images)...\nOriginal: {1}\nPrompt: {2}',
+      },
+    },
+    '描述图片': {
+      description: 'Describe an image, or suggest a prompt for generating one like it',
+      options: {
+        prompt: 'Suggest a prompt instead of a description',
+      },
+      messages: {
+        empty: 'The model returned no description. Please try another image.',
+        failed: 'Failed to describe the image',
+      },
+    },
+    '风格对比': {
+      description: 'Apply several styles to one image and combine the results into a comparison sheet',
+      options: {
+        styles: 'Style names separated by commas (defaults to all available styles)',
+        full: 'Also send the full-size results as a forwarded message',
+      },
+      messages: {
+        unsupported: 'Style {0} does not support comparison.',
+        'too-many': 'At most {0} styles can be compared at once.',
+        'too-few': 'At least two available styles are required.',
+        start: 'Comparing styles ({0})...',
+      },
+    },
+    '批量处理': {
+      description: 'Apply one style to several images and combine the results into a comparison sheet',
+      options: {
+        full: 'Also send the full-size results as a forwarded message',
+      },
+      messages: {
+        'no-style': 'Please specify a style name.',
+        unsupported: 'Style {0} does not support batch processing.',
+        wait: 'Please send {0} or more images within 30 seconds (at most {1}).',
+        start: 'Batch processing ({0}, {1} images)...',
+      },
+    },
+    '图像处理.状态': {
+      description: 'Show the status of your current image task',
+      messages: {
+        label: 'Task: {0}',
+        stage: 'Stage: {0}',
+        elapsed: 'Elapsed: {0} s',
+        position: 'Queue position: {0}',
+      },
+    },
+    '图像处理.取消': {
+      description: 'Cancel your current image task',
+      messages: {
+        cancelling: 'Cancelling the image task...',
+      },
+    },
+    '图像处理.额度': {
+      description: 'Show your remaining image quota',
+      messages: {
+        disabled: 'Quota limits are not enabled.',
+        user: '[Your quota]',
+        guild: '[Group quota]',
+      },
+    },
+    '图像处理.额度.授予': {
+      description: 'Grant bonus image quota (negative to deduct)',
+      options: quotaTargetOptions,
+      messages: {
+        'no-amount': 'Please specify an amount.',
+        granted: 'Adjusted bonus quota of {0} by {1}',
+      },
+    },
+    '图像处理.额度.重置': {
+      description: 'Reset used image quota',
+      options: {
+        ...quotaTargetOptions,
+        bonus: 'Also clear the bonus quota',
+      },
+      messages: {
+        reset: 'Reset the quota of {0}',
+      },
+    },
+    '图像处理.额度.查看': {
+      description: 'Show the image quota of a user or group',
+      options: quotaTargetOptions,
+    },
+    '图像处理.历史': {
+      description: 'Show your recent image tasks',
+      messages: {
+        empty: 'No image tasks yet.',
+        'no-more': 'No more records.',
+        item: '#{id} {style} ({status}{count}) {time}',
+        count: ', {0} images',
+        hint: 'Use "图像处理.重发 &lt;id&gt;" to resend the results, "图像处理.重做 &lt;id&gt;" to generate again, or "图像处理.换风格 &lt;id&gt; &lt;style&gt;" to try another style.',
+      },
+    },
+    '图像处理.重发': {
+      description: 'Resend the results of a record',
+      messages: {
+        'no-outputs': 'This record has no results to send.',
+        unavailable: 'The result images of this record can no longer be read.',
+        summary: 'Record #{0} ({1})',
+      },
+    },
+    '图像处理.重做': {
+      description: 'Generate again with the same input and style',
+      options: {
+        num: generationOptions.num,
+      },
+    },
+    '图像处理.换风格': {
+      description: 'Generate from the input images of a record with another style',
+      options: {
+        num: generationOptions.num,
+      },
+      messages: {
+        missing: 'Please specify a record number and a style name.',
+      },
+    },
+    '图像处理.风格': {
+      description: 'List the available image styles',
+      messages: {
+        empty: 'No styles yet.',
+        item: '{0}{1} - {2}',
+        disabled: ' (disabled)',
+      },
+    },
+    '图像处理.风格.查看': {
+      description: 'Show the prompt and settings of a style',
+      messages: {
+        name: 'Name: {0}',
+        description: 'Description: {0}',
+        status: 'Status: {0}',
+        enabled: 'enabled',
+        disabled: 'disabled',
+        provider: 'Provider: {0}',
+        cost: 'Quota cost: {0}',
+        images: 'Input images: {0}, {1}-{2}',
+        access: 'Authority: level {authority}, private chat {private}, cooldown: user {user} s / group {guild} s',
+        available: 'allowed',
+        unavailable: 'not allowed',
+        prompt: 'Prompt: {0}',
+        translation: 'Prompt ({0}): {1}',
+        generation: 'Generation parameters: {0}',
+        ratio: 'aspect ratio {0}',
+        size: 'resolution {0}',
+        seed: 'seed {0}',
+        temperature: 'temperature {0}',
+        negative: 'Negative prompt: {0}',
+        'allow-guilds': 'Allowed groups: {0}',
+        'deny-guilds': 'Denied groups: {0}',
+        'allow-channels': 'Allowed channels: {0}',
+        'deny-channels': 'Denied channels: {0}',
+      },
+    },
+    '图像处理.风格.添加': {
+      description: 'Add a new image style',
+      options: {
+        description: 'Command description',
+      },
+      messages: {
+        missing: 'Please specify a style name and a prompt.',
+        added: 'Added style: {0}',
+      },
+    },
+    '图像处理.风格.编辑': {
+      description: 'Change the prompt and settings of a style',
+      options: {
+        description: 'Command description',
+        provider: 'Provider (gemini/fal/openai/mock)',
+        model: 'Model ID',
+        cost: 'Quota cost per image',
+        image: 'Input images (required/optional/forbidden)',
+        authority: 'Minimum authority level',
+        userCooldown: 'Cooldown per user (seconds)',
+        guildCooldown: 'Cooldown per group (seconds)',
+      },
+      messages: {
+        'unknown-provider': 'Unknown provider: {0}',
+        'unknown-image-mode': 'Unknown input image mode: {0}',
+        updated: 'Updated style: {0}',
+      },
+    },
+    '图像处理.风格.启用': {
+      description: 'Enable an image style',
+      messages: {
+        already: 'Style is already enabled: {0}',
+        enabled: 'Enabled style: {0}',
+      },
+    },
+    '图像处理.风格.禁用': {
+      description: 'Disable an image style',
+      messages: {
+        already: 'Style is already disabled: {0}',
+        disabled: 'Disabled style: {0}',
+      },
+    },
+    '图像处理.风格.重命名': {
+      description: 'Rename an image style',
+      messages: {
+        missing: 'Please specify the current name and the new name.',
+        renamed: 'Renamed style {0} to {1}',
+      },
+    },
+    '图像处理.风格.删除': {
+      description: 'Delete an image style',
+      messages: {
+        removed: 'Deleted style: {0}',
+      },
+    },
+    '图像处理.风格.导出': {
+      description: 'Export all styles',
+      options: {
+        format: 'Export format (json/yaml)',
+      },
+    },
+    '图像处理.风格.导入': {
+      description: 'Import styles from JSON/YAML',
+      options: {
+        replace: 'Replace all existing styles',
+      },
+      messages: {
+        missing: 'Please append a style list in JSON or YAML format.',
+        imported: 'Imported {0} styles',
+      },
+    },
+    '图像处理.统计': {
+      description: 'Show API usage and cost statistics',
+      usage: 'Summarizes the outcome, token usage and estimated cost of every provider call over the last few days (7 by default). Tokens are shown as input/output.',
+      options: {
+        by: 'Group by: day/user/guild/style/model',
+        limit: 'Number of groups to show',
+        csv: 'Export the details as a CSV file',
+      },
+      messages: {
+        'invalid-dimension': 'Group by must be one of day, user, guild, style or model.',
+        empty: 'No calls in the last {0} days.',
+        title: 'Usage in the last {0} days',
+        group: 'By {0}:',
+        more: '...{0} groups in total, use -l to show more',
+        dimensions: {
+          day: 'day',
+          user: 'user',
+          guild: 'group',
+          style: 'style',
+          model: 'model',
+        },
+        calls: '{0} calls',
+        'failure-rate': '{0}% failed',
+        refused: '{0} refused',
+        images: '{0} images',
+        tokens: 'tokens {0}/{1}',
+        cost: 'cost ≈ {0}',
+        item: '{0}: {1}',
+      },
+    },
+    '图像处理.密钥': {
+      description: 'Show the usage and status of the API keys',
+      messages: {
+        empty: 'No API keys configured.',
+        paused: 'paused ({0}, resumes in {1} min)',
+        auth: 'authentication failed',
+        quota: 'quota exhausted',
+        capped: 'daily cap reached',
+        normal: 'OK',
+        'default-key': 'Default key',
+        'unnamed-key': 'Key #{0}',
+        fingerprint: '{0} (…{1})',
+        item: '#{index} {name} {health}\n    weight {weight}, requests today {cap}, succeeded {success}, failed {failed}',
+      },
+    },
+    '图像处理.密钥.恢复': {
+      description: 'Resume a paused API key immediately',
+      messages: {
+        'no-index': 'Please specify a key number.',
+        'not-found': 'Key #{0} not found',
+        enabled: 'Resumed key #{0}',
+      },
+    },
+  },
+}
@@ -0,0 +1,19 @@
+import zhCN, { generationOptions as zhCNOptions } from './zh-CN'
+import enUS, { generationOptions as enUSOptions } from './en-US'
+
+export const locales = {
+  'zh-CN': zhCN,
+  'en-US': enUS,
+}
+
+// 生成类选项的说明，风格命令注册时使用
+export const generationOptions: Record<string, Record<string, string>> = {
+  'zh-CN': zhCNOptions,
+  'en-US': enUSOptions,
+}
+
+// 没有填写描述的风格命令使用的默认描述
+export const defaultStyleDescriptions: Record<string, string> = {
+  'zh-CN': zhCN['yunwu-figurine'].style['default-description'],
+  'en-US': enUS['yunwu-figurine'].style['default-description'],
+}
@@ -0,0 +1,512 @@
+// 简体中文：消息中的 {0}、{name} 为参数，尖括号需要转义为 &lt; &gt;
+
+// 生成类命令共用的选项
+export const generationOptions = {
+  num: '生成图片数量 (1-4)',
+  ratio: '宽高比，如 16:9、9:16、1:1',
+  size: '输出分辨率，如 1K、2K、4K',
+  seed: '随机种子',
+  temperature: '采样温度 (0-2)',
+  fresh: '不使用缓存的结果，重新生成',
+}
+
+// 支持提示词助手的命令
+const assistedOptions = {
+  ...generationOptions,
+  raw: '不使用提示词助手，直接提交 prompt',
+}
+
+const quotaTargetOptions = {
+  user: '目标用户',
+  guild: '目标群组ID',
+}
+
+export default {
+  'yunwu-figurine': {
+    'invalid-session': '会话无效',
+    busy: '您有一个图像处理任务正在进行中，请等待完成',
+    'invalid-count': '生成数量必须在 1-4 之间',
+    'style-not-found': '未找到风格：{0}',
+    'no-job': '当前没有图像处理任务',
+    'send-image': '请在30秒内发送一张图片',
+    'send-images': '请在30秒内发送 {0} 张图片',
+    comma: '，',
+    enumeration: '、',
+    labels: {
+      custom: '自定义prompt',
+      merge: '合并',
+      'text-to-image': '文生图',
+      compare: '风格对比',
+      batch: '批量处理',
+      describe: '描述图片',
+    },
+    input: {
+      timeout: '等待超时，请重试',
+      'no-image': '未检测到图片，请重试',
+      'need-images': '需要至少 {0} 张图片，当前只有 {1} 张图片',
+      received: '已收到 {0} 张图片，请继续发送图片或发送 prompt 文字',
+      'no-content': '未检测到有效内容，请重新发送',
+      'no-prompt': '未检测到prompt描述，请重新发送',
+      'private-url': '已忽略指向本机或内网地址的图片链接',
+    },
+    image: {
+      'download-failed': '下载图片失败，请检查图片链接是否有效',
+      'private-url': '图片链接指向本机或内网地址，已拒绝',
+      'not-image': '收到的文件不是有效的图片，请发送 JPG、PNG、WebP 或 GIF 格式的图片',
+      'too-large': '图片过大（{0}MB），请发送不超过 {1}MB 的图片',
+      unreadable: '图片无法解析，请换一张图片重试',
+    },
+    template: {
+      'invalid-choice': '参数 {0} 只能是：{1}',
+    },
+    params: {
+      'ratio-unsupported': '模型 {0} 不支持宽高比 {1}，可选：{2}',
+      'ratio-unavailable': '模型 {0} 不支持指定宽高比',
+      'size-unsupported': '模型 {0} 不支持分辨率 {1}，可选：{2}',
+      'size-unavailable': '模型 {0} 不支持指定分辨率',
+      'seed-unavailable': '模型 {0} 不支持指定随机种子',
+      'temperature-unavailable': '模型 {0} 不支持指定采样温度',
+      'temperature-range': '采样温度必须在 0-2 之间',
+      header: '参数（依次写在图片后，或使用 --参数名 &lt;值&gt; 指定）：',
+      choices: '可选：{0}',
+      default: '默认：{0}',
+      random: '默认随机',
+    },
+    access: {
+      private: '「{0}」不支持私聊使用，请在群聊中使用',
+      guild: '「{0}」在本群不可用',
+      channel: '「{0}」在当前频道不可用',
+      authority: '权限不足，「{0}」需要 {1} 级权限',
+      'user-cooldown': '「{0}」冷却中，请 {1} 秒后再试',
+      'guild-cooldown': '本群的「{0}」冷却中，请 {1} 秒后再试',
+    },
+    quota: {
+      'user-insufficient': '您的图像处理额度不足（剩余 {0}，本次需要 {1}）',
+      'guild-insufficient': '本群的图像处理额度不足（剩余 {0}，本次需要 {1}）',
+      daily: '今日已用：{0}',
+      monthly: '本月已用：{0}',
+      bonus: '额外额度：{0}',
+      remaining: '剩余可用：{0}',
+      limit: '{0}/{1}',
+      unlimited: '不限',
+      'user-target': '用户 {0}',
+      'guild-target': '群组 {0}',
+      'no-target': '请使用 -u 指定用户或 -g 指定群组',
+    },
+    provider: {
+      auth: '图像服务认证失败，请联系管理员检查 API 密钥',
+      quota: '上游服务额度已用尽或请求过于频繁，请稍后重试',
+      invalid: '请求未被图像服务接受，请调整提示词或图片后重试',
+      upstream: '图像服务暂时不可用，请稍后重试',
+      network: '连接图像服务超时，请稍后重试',
+      unknown: '图像处理API调用失败',
+    },
+    'circuit-open': '图像服务暂时不可用，请 {0} 秒后重试',
+    refusal: {
+      prompt_blocked: '提示词或图片未通过安全审核，请修改后重试',
+      safety: '生成内容未通过安全审核，请调整提示词或更换图片',
+      recitation: '生成内容可能涉及受版权保护的素材，已被拦截',
+      truncated: '模型输出过长被截断，未能生成图片',
+      text_only: '模型没有返回图片',
+      other: '未能生成图片',
+    },
+    task: {
+      process: {
+        done: '图像处理完成！',
+        failed: '图像处理失败',
+        timeout: '图像处理超时，请重试',
+      },
+      generate: {
+        done: '图像生成完成！',
+        failed: '图像生成失败',
+        timeout: '图像生成超时，请重试',
+      },
+      merge: {
+        done: '图片合并完成！',
+        failed: '图片合并失败',
+        timeout: '图片合并超时，请重试',
+      },
+      'start-image': '开始处理图片（{0}）...',
+      'start-text': '开始生成图片（{0}）...',
+      partial: '{0}（成功 {1}/{2} 张）',
+      reason: '{0}：{1}',
+      'model-reply': '模型回复：{0}',
+      retry: '{0}，请稍后重试',
+      cancelled: '任务已取消',
+      queued: '当前排队中，前方还有 {0} 个任务',
+      background: '任务耗时较长，已转入后台继续处理，完成后会在这里通知您',
+      resuming: '正在恢复插件重启前的任务（{0}）...',
+      interrupted: '插件重启前的任务（{0}）已中断，额度已退还，请重新提交',
+    },
+    assist: {
+      instruction: '你是图像编辑提示词助手。请把用户的要求改写为一段具体、清晰的英文提示词，补充风格、构图、光线与细节，保留用户的原意。只输出提示词本身，不要添加解释。',
+      describe: '请用简体中文描述这张图片，包括主体、场景、构图、色彩、光线与画面风格。',
+      suggest: '请为这张图片写一段可以交给图像生成模型的英文提示词，涵盖主体、风格、构图、色彩与光线。只输出提示词本身，不要添加解释。',
+    },
+    batch: {
+      done: '{0}完成（成功 {1}/{2} 张）',
+      failed: '{0}失败：未能生成图片',
+      timeout: '{0}超时，请减少数量后重试',
+      error: '{0}失败，请稍后重试',
+      'failed-cell': '{0}（失败）',
+    },
+    record: {
+      'no-id': '请指定记录编号',
+      'not-found': '未找到该记录',
+      'no-sources': '该记录没有保存输入图片，无法重新生成',
+      start: '开始处理图片（{0}，来自记录 #{1}）...',
+    },
+    conversation: {
+      exhausted: '该图片已连续编辑 {0} 轮，请使用风格命令或「生成图像」重新开始',
+      start: '继续编辑（第 {0} 轮）...\nPrompt: {1}',
+    },
+    stage: {
+      downloading: '下载图片中',
+      queued: '排队中',
+      generating: '生成中',
+      sending: '发送中',
+    },
+    status: {
+      success: '成功',
+      partial: '部分成功',
+      failed: '失败',
+      timeout: '超时',
+      cancelled: '已取消',
+    },
+    'image-mode': {
+      required: '必需',
+      optional: '可选',
+      forbidden: '不接受',
+    },
+    style: {
+      'default-description': '图像风格转换',
+      exists: '风格已存在：{0}',
+      taken: '命令名已被占用：{0}',
+      'invalid-format': '无法解析导入内容，请检查 JSON/YAML 格式',
+      'missing-fields': '导入内容中的每个风格都需要 commandName 与 prompt',
+      'invalid-item': '第 {0} 个风格「{1}」不符合要求：{2}',
+    },
+    usage: {
+      private: '私聊',
+      unknown: '未知',
+    },
+    api: {
+      'invalid-token': '令牌无效',
+      busy: '该令牌有一个图像处理任务正在进行中，请等待完成',
+      'job-not-found': '未找到任务',
+      'result-not-found': '未找到结果',
+      'invalid-seed': '随机种子必须是整数',
+      'invalid-temperature': '采样温度必须是数字',
+      'invalid-params': 'params 必须是 JSON 对象',
+      'missing-input': '请提供风格名称或 prompt',
+      'too-many-images': '最多支持 4 张图片',
+      'private-url': '不支持该图片链接，只能使用公网的 http(s) 地址：{0}',
+      'style-images': '风格 {0} 需要 {1} 张图片',
+      start: '开始处理（{0}）...',
+    },
+  },
+  commands: {
+    '生成图像': {
+      description: '使用自定义prompt进行图像处理',
+      options: assistedOptions,
+      messages: {
+        'ask-instruction': '请发送修改说明，将在这张图片的基础上继续编辑',
+        'no-instruction': '未检测到修改说明，请重新发送',
+        intro: '请发送图片和prompt，支持两种方式：\n1. 同时发送：[图片] + prompt描述\n2. 分步发送：先发送图片，再发送prompt文字\n\n例如：[图片] 让这张图片变成油画风格',
+        start: '开始处理图片（自定义prompt）...\nPrompt: {0}',
+        'start-assisted': '开始处理图片（自定义prompt）...\n原始描述：{0}\nPrompt: {1}',
+      },
+    },
+    '文生图': {
+      description: '根据文字描述生成图片',
+      options: generationOptions,
+      messages: {
+        ask: '请发送图片描述，例如：一只在月球上喝咖啡的橘猫，水彩风格',
+        'no-description': '未检测到描述文字，请重新发送',
+        start: '开始生成图片...\nPrompt: {0}',
+      },
+    },
+    '合并': {
+      description: '合并多张图片，使用自定义prompt控制合并效果',
+      options: assistedOptions,
+      messages: {
+        intro: '请发送多张图片和prompt，支持两种方式：\n1. 同时发送：[图片1] [图片2]... + prompt描述\n2. 分步发送：先发送多张图片，再发送prompt文字\n\n例如：[图片1] [图片2] 将这两张图片合并成一张',
+        start: '开始合并图片（{0}张）...\nPrompt: {1}',
+        'start-assisted': '开始合并图片（{0}张）...\n原始描述：{1}\nPrompt: {2}',
+      },
+    },
+    '描述图片': {
+      description: '描述图片内容，或为图片写一段可用于生成的提示词',
+      options: {
+        prompt: '生成提示词而不是描述',
+      },
+      messages: {
+        empty: '模型没有返回描述，请换一张图片重试',
+        failed: '描述图片失败',
+      },
+    },
+    '风格对比': {
+      description: '用多个风格处理同一张图片，并拼成对比图',
+      options: {
+        styles: '风格名称，用逗号分隔（默认全部可用的风格）',
+        full: '同时以转发消息发送原图',
+      },
+      messages: {
+        unsupported: '风格 {0} 不支持对比',
+        'too-many': '最多同时对比 {0} 个风格',
+        'too-few': '至少需要两个可用的风格',
+        start: '开始风格对比（{0}）...',
+      },
+    },
+    '批量处理': {
+      description: '用同一个风格处理多张图片，并拼成对比图',
+      options: {
+        full: '同时以转发消息发送原图',
+      },
+      messages: {
+        'no-style': '请指定风格名称',
+        unsupported: '风格 {0} 不支持批量处理',
+        wait: '请在30秒内发送 {0} 张或更多图片（最多 {1} 张）',
+        start: '开始批量处理（{0}，{1} 张）...',
+      },
+    },
+    '图像处理.状态': {
+      description: '查询当前图像处理任务状态',
+      messages: {
+        label: '任务：{0}',
+        stage: '阶段：{0}',
+        elapsed: '已用时间：{0} 秒',
+        position: '排队位置：第 {0} 位',
+      },
+    },
+    '图像处理.取消': {
+      description: '取消当前图像处理任务',
+      messages: {
+        cancelling: '正在取消图像处理任务...',
+      },
+    },
+    '图像处理.额度': {
+      description: '查询剩余图像处理额度',
+      messages: {
+        disabled: '当前未启用额度限制',
+        user: '【个人额度】',
+        guild: '【本群额度】',
+      },
+    },
+    '图像处理.额度.授予': {
+      description: '授予额外图像处理额度（负数为扣除）',
+      options: quotaTargetOptions,
+      messages: {
+        'no-amount': '请指定额度数量',
+        granted: '已为{0}调整额外额度 {1}',
+      },
+    },
+    '图像处理.额度.重置': {
+      description: '重置已用图像处理额度',
+      options: {
+        ...quotaTargetOptions,
+        bonus: '同时清空额外额度',
+      },
+      messages: {
+        reset: '已重置{0}的额度',
+      },
+    },
+    '图像处理.额度.查看': {
+      description: '查看指定用户或群组的图像处理额度',
+      options: quotaTargetOptions,
+    },
+    '图像处理.历史': {
+      description: '查看最近的图像处理记录',
+      messages: {
+        empty: '暂无图像处理记录',
+        'no-more': '没有更多记录了',
+        item: '#{id} {style}（{status}{count}） {time}',
+        count: '，{0}张',
+        hint: '使用「图像处理.重发 &lt;编号&gt;」重新发送结果，「图像处理.重做 &lt;编号&gt;」重新生成，「图像处理.换风格 &lt;编号&gt; &lt;风格&gt;」换一种风格',
+      },
+    },
+    '图像处理.重发': {
+      description: '重新发送历史记录中的生成结果',
+      messages: {
+        'no-outputs': '该记录没有可发送的结果',
+        unavailable: '该记录的结果图片已无法读取',
+        summary: '记录 #{0}（{1}）',
+      },
+    },
+    '图像处理.重做': {
+      description: '使用相同的输入和风格重新生成',
+      options: {
+        num: generationOptions.num,
+      },
+    },
+    '图像处理.换风格': {
+      description: '使用历史记录中的输入图片换一种风格生成',
+      options: {
+        num: generationOptions.num,
+      },
+      messages: {
+        missing: '请指定记录编号和风格名称',
+      },
+    },
+    '图像处理.风格': {
+      description: '查看可用的图像风格',
+      messages: {
+        empty: '暂无风格',
+        item: '{0}{1} - {2}',
+        disabled: '（已禁用）',
+      },
+    },
+    '图像处理.风格.查看': {
+      description: '查看风格的 prompt 与设置',
+      messages: {
+        name: '名称：{0}',
+        description: '描述：{0}',
+        status: '状态：{0}',
+        enabled: '启用',
+        disabled: '禁用',
+        provider: '提供方：{0}',
+        cost: '额度消耗：{0}',
+        images: '输入图片：{0}，{1}-{2} 张',
+        access: '权限：{authority} 级，私聊{private}，冷却：用户 {user} 秒 / 群组 {guild} 秒',
+        available: '可用',
+        unavailable: '不可用',
+        prompt: 'Prompt：{0}',
+        translation: 'Prompt（{0}）：{1}',
+        generation: '生成参数：{0}',
+        ratio: '宽高比 {0}',
+        size: '分辨率 {0}',
+        seed: '种子 {0}',
+        temperature: '温度 {0}',
+        negative: '负面提示词：{0}',
+        'allow-guilds': '允许的群组：{0}',
+        'deny-guilds': '禁止的群组：{0}',
+        'allow-channels': '允许的频道：{0}',
+        'deny-channels': '禁止的频道：{0}',
+      },
+    },
+    '图像处理.风格.添加': {
+      description: '添加新的图像风格',
+      options: {
+        description: '命令描述',
+      },
+      messages: {
+        missing: '请指定风格名称和 prompt',
+        added: '已添加风格：{0}',
+      },
+    },
+    '图像处理.风格.编辑': {
+      description: '修改风格的 prompt 与设置',
+      options: {
+        description: '命令描述',
+        provider: '提供方（gemini/fal/openai/mock）',
+        model: '模型ID',
+        cost: '每张图片消耗的额度',
+        image: '输入图片（required/optional/forbidden）',
+        authority: '最低权限等级',
+        userCooldown: '每个用户的冷却时间（秒）',
+        guildCooldown: '每个群组的冷却时间（秒）',
+      },
+      messages: {
+        'unknown-provider': '未知的提供方：{0}',
+        'unknown-image-mode': '未知的输入图片要求：{0}',
+        updated: '已更新风格：{0}',
+      },
+    },
+    '图像处理.风格.启用': {
+      description: '启用图像风格',
+      messages: {
+        already: '风格已处于启用状态：{0}',
+        enabled: '已启用风格：{0}',
+      },
+    },
+    '图像处理.风格.禁用': {
+      description: '禁用图像风格',
+      messages: {
+        already: '风格已处于禁用状态：{0}',
+        disabled: '已禁用风格：{0}',
+      },
+    },
+    '图像处理.风格.重命名': {
+      description: '重命名图像风格',
+      messages: {
+        missing: '请指定原名称和新名称',
+        renamed: '已将风格 {0} 重命名为 {1}',
+      },
+    },
+    '图像处理.风格.删除': {
+      description: '删除图像风格',
+      messages: {
+        removed: '已删除风格：{0}',
+      },
+    },
+    '图像处理.风格.导出': {
+      description: '导出全部风格',
+      options: {
+        format: '导出格式（json/yaml）',
+      },
+    },
+    '图像处理.风格.导入': {
+      description: '从 JSON/YAML 导入风格',
+      options: {
+        replace: '替换现有的全部风格',
+      },
+      messages: {
+        missing: '请在命令后附上 JSON 或 YAML 格式的风格列表',
+        imported: '已导入 {0} 个风格',
+      },
+    },
+    '图像处理.统计': {
+      description: '查看API用量与费用统计',
+      usage: '统计最近若干天（默认 7 天）内每次调用提供方的结果、token 用量与估算费用，token 显示为 输入/输出',
+      options: {
+        by: '分组方式：day/user/guild/style/model',
+        limit: '显示的分组数量',
+        csv: '导出明细为 CSV 文件',
+      },
+      messages: {
+        'invalid-dimension': '分组方式只能是 day、user、guild、style 或 model',
+        empty: '最近 {0} 天没有调用记录',
+        title: '最近 {0} 天用量统计',
+        group: '按{0}：',
+        more: '……共 {0} 项，使用 -l 显示更多',
+        dimensions: {
+          day: '日期',
+          user: '用户',
+          guild: '群组',
+          style: '风格',
+          model: '模型',
+        },
+        calls: '调用 {0} 次',
+        'failure-rate': '失败率 {0}%',
+        refused: '拒绝 {0} 次',
+        images: '生成 {0} 张',
+        tokens: 'token {0}/{1}',
+        cost: '费用 ≈ {0}',
+        item: '{0}：{1}',
+      },
+    },
+    '图像处理.密钥': {
+      description: '查看API密钥的使用情况与状态',
+      messages: {
+        empty: '未配置API密钥',
+        paused: '暂停中（{0}，{1} 分钟后恢复）',
+        auth: '认证失败',
+        quota: '额度不足',
+        capped: '今日已达上限',
+        normal: '正常',
+        'default-key': '默认密钥',
+        'unnamed-key': '密钥 #{0}',
+        fingerprint: '{0}（…{1}）',
+        item: '#{index} {name} {health}\n    权重 {weight}，今日请求 {cap} 次，累计成功 {success}，失败 {failed}',
+      },
+    },
+    '图像处理.密钥.恢复': {
+      description: '立即恢复被暂停的API密钥',
+      messages: {
+        'no-index': '请指定密钥编号',
+        'not-found': '未找到密钥 #{0}',
+        enabled: '已恢复密钥 #{0}',
+      },
+    },
+  },
+}
@@ -0,0 +1,108 @@
+import { lookup as lookupCallback, LookupAddress } from 'dns'
+import { lookup } from 'dns/promises'
+import { IncomingMessage, get as httpGet } from 'http'
+import { get as httpsGet } from 'https'
+import { BlockList, isIP, LookupFunction } from 'net'
+
+// 回环、私有、链路本地、组播与保留地址
+const privateAddresses = new BlockList()
+for (const [address, prefix] of [['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 3]] as const) {
+  privateAddresses.addSubnet(address, prefix, 'ipv4')
+}
+for (const [address, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  privateAddresses.addSubnet(address, prefix, 'ipv6')
+}
+
+export function isPrivateAddress(address: string) {
+  // IPv4 映射的 IPv6 地址按 IPv4 判断
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1]
+  if (mapped) return privateAddresses.check(mapped, 'ipv4')
+  return privateAddresses.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4')
+}
+
+// 用户提供的图片链接只允许指向公网的 http(s) 地址，避免借插件访问本机或内网服务
+export async function isPublicUrl(url: string) {
+  if (url.startsWith('data:')) return true
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return false
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return false
+  const host = parsed.hostname.replace(/^\[|\]$/g, '')
+  try {
+    const addresses = isIP(host) ? [{ address: host }] : await lookup(host, { all: true })
+    return addresses.length > 0 && addresses.every(({ address }) => !isPrivateAddress(address))
+  } catch {
+    return false
+  }
+}
+
+export class PrivateAddressError extends Error {
+  constructor(public host: string) {
+    super(`拒绝连接本机或内网地址：${host}`)
+    this.name = 'PrivateAddressError'
+  }
+}
+
+export interface FetchPublicOptions {
+  timeout: number         // 毫秒
+  signal?: AbortSignal
+  maxRedirects?: number
+}
+
+// 连接前检查解析结果：每次连接使用的都是检查过的地址，DNS 在检查后改变也无法连接到内网
+const publicLookup = ((hostname: string, options: { all?: boolean }, callback: (...args: any[]) => void) => {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) return callback(error)
+    if (!addresses.length || addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(new PrivateAddressError(hostname))
+    }
+    if (options.all) return callback(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}) as LookupFunction
+
+function request(url: URL, signal: AbortSignal) {
+  // IP 地址不经过 DNS 解析，直接检查
+  const host = url.hostname.replace(/^\[|\]$/g, '')
+  if (isIP(host) && isPrivateAddress(host)) return Promise.reject(new PrivateAddressError(host))
+  const get = url.protocol === 'https:' ? httpsGet : httpGet
+  return new Promise<IncomingMessage>((resolve, reject) => {
+    get(url, { lookup: publicLookup, signal }, resolve).on('error', reject)
+  })
+}
+
+// 下载用户提供的链接：只连接公网地址，重定向的每一跳同样检查
+export async function fetchPublic(url: string, options: FetchPublicOptions): Promise<Buffer> {
+  const controller = new AbortController()
+  const abort = () => controller.abort(options.signal?.reason)
+  options.signal?.throwIfAborted()
+  options.signal?.addEventListener('abort', abort, { once: true })
+  const timer = setTimeout(() => controller.abort(new Error('下载超时')), options.timeout)
+  try {
+    let target = new URL(url)
+    for (let redirects = options.maxRedirects ?? 3; ; redirects--) {
+      if (target.protocol !== 'http:' && target.protocol !== 'https:') throw new Error(`不支持的协议：${target.protocol}`)
+      const response = await request(target, controller.signal)
+      const status = response.statusCode || 0
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume()
+        if (redirects <= 0) throw new Error('重定向次数过多')
+        target = new URL(response.headers.location, target)
+        continue
+      }
+      if (status < 200 || status >= 300) {
+        response.resume()
+        throw new Error(`下载失败：HTTP ${status}`)
+      }
+      const chunks: Buffer[] = []
+      for await (const chunk of response) chunks.push(chunk)
+      return Buffer.concat(chunks)
+    }
+  } finally {
+    clearTimeout(timer)
+    options.signal?.removeEventListener('abort', abort)
+  }
+}
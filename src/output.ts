@@ -0,0 +1,255 @@
+import { Context, Logger } from 'koishi'
+import type {} from '@koishijs/assets'
+import type {} from '@koishijs/plugin-server'
+import sharp from 'sharp'
+import { createHash } from 'crypto'
+import { mkdir, readdir, readFile, stat, unlink, writeFile } from 'fs/promises'
+import { resolve } from 'path'
+import { Config, WatermarkPosition } from './config'
+import { InputImage } from './providers'
+import { abortable } from './scheduler'
+import { extensions, fetchImage } from './storage'
+import { renderSvg, svgText } from './svg'
+
+// 处理后的结果：image 用于保存到历史记录，src 用于发送
+export interface OutputImage {
+  image: InputImage
+  src: string
+}
+
+const formats: Record<string, 'png' | 'jpeg' | 'webp'> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+  'image/webp': 'webp'
+}
+
+// 估算文字宽度：中日韩等全角字符按 1em，其余按 0.6em
+function measureText(text: string, fontSize: number) {
+  let width = 0
+  for (const char of text) {
+    width += char.charCodeAt(0) > 0x2e80 ? fontSize : fontSize * 0.6
+  }
+  return Math.ceil(width)
+}
+
+// 文字水印：白字黑边，在深浅背景上都能看清
+function renderText(text: string, maxWidth: number, shortEdge: number, opacity: number) {
+  let fontSize = Math.max(12, Math.round(shortEdge * 0.04))
+  const estimated = measureText(text, fontSize)
+  if (estimated > maxWidth) fontSize = Math.max(8, Math.floor(fontSize * maxWidth / estimated))
+  const width = Math.min(maxWidth, measureText(text, fontSize))
+  const height = Math.ceil(fontSize * 1.4)
+  const stroke = Math.max(1, Math.round(fontSize / 16))
+  const input = renderSvg(width, height, [
+    svgText(text, { x: '50%', y: '50%', 'font-size': fontSize, fill: '#ffffff', stroke: '#000000', 'stroke-width': stroke, 'paint-order': 'stroke', opacity, 'text-anchor': 'middle', 'dominant-baseline': 'central' }),
+  ])
+  return { input, width, height }
+}
+
+function placeOverlay(position: WatermarkPosition, width: number, height: number, overlay: { width: number, height: number }, margin: number) {
+  const right = Math.max(0, width - overlay.width - margin)
+  const bottom = Math.max(0, height - overlay.height - margin)
+  switch (position) {
+    case 'top-left': return { left: margin, top: margin }
+    case 'top-right': return { left: right, top: margin }
+    case 'bottom-left': return { left: margin, top: bottom }
+    case 'bottom-right': return { left: right, top: bottom }
+    case 'center': return {
+      left: Math.max(0, Math.round((width - overlay.width) / 2)),
+      top: Math.max(0, Math.round((height - overlay.height) / 2))
+    }
+  }
+}
+
+// 结果图片的后处理与发送：格式转换、缩小、去除元数据、水印，并按配置上传后返回可发送的地址
+export function createOutputs(ctx: Context, config: Config, logger: Logger) {
+  const root = resolve(ctx.baseDir, config.storagePath, 'outputs')
+  let watermark: Promise<Buffer> | undefined
+  let hostUrl: ((filename: string) => string | undefined) | undefined
+
+  // 本地发送：文件名为内容哈希，只允许访问本插件写入的文件
+  ctx.inject(['server'], (ctx) => {
+    if (config.outputHosting !== 'local') return
+    const path = config.outputPath.replace(/\/+$/, '')
+
+    ctx.server.get(`${path}/:name`, async (koa) => {
+      const name: string = koa.params.name
+      const ext = /^[0-9a-f]{32}\.(\w+)$/.exec(name)?.[1]
+      const mimeType = ext && Object.keys(extensions).find(type => extensions[type] === ext)
+      if (!mimeType) return koa.status = 404
+      try {
+        koa.body = await readFile(resolve(root, name))
+        koa.type = mimeType
+        koa.set('Cache-Control', 'public, max-age=86400')
+      } catch {
+        koa.status = 404
+      }
+    })
+
+    // 没有配置公网地址且 server 服务也没有可用地址时无法生成完整链接
+    hostUrl = (filename) => {
+      const base = (config.outputBaseUrl || ctx.server.selfUrl || '').replace(/\/+$/, '')
+      if (/^https?:\/\//.test(base)) return `${base}${path}/${filename}`
+    }
+    ctx.on('dispose', () => {
+      hostUrl = undefined
+    })
+  })
+
+  // 水印图片只加载一次，加载失败时下次重试
+  function loadWatermark() {
+    watermark ||= (async () => {
+      const source = config.watermarkImage
+      if (/^(https?|data):/.test(source)) {
+        return Buffer.from((await fetchImage(ctx, source, config.apiTimeout * 1000)).data, 'base64')
+      }
+      return readFile(resolve(ctx.baseDir, source))
+    })().catch((error) => {
+      watermark = undefined
+      throw error
+    })
+    return watermark
+  }
+
+  // 按结果图片的尺寸生成水印图层
+  async function renderWatermark(width: number, height: number): Promise<sharp.OverlayOptions | undefined> {
+    const margin = Math.round(Math.min(width, height) * 0.02)
+    const maxWidth = width - margin * 2
+    if (maxWidth <= 0) return
+
+    let overlay: { input: Buffer, width: number, height: number }
+    if (config.watermarkImage) {
+      const target = Math.max(1, Math.min(maxWidth, Math.round(width * config.watermarkScale)))
+      const { data, info } = await sharp(await loadWatermark())
+        .resize({ width: target, height: height - margin * 2, fit: 'inside' })
+        .ensureAlpha()
+        // 按不透明度缩放 alpha 通道
+        .composite([{
+          input: Buffer.from([255, 255, 255, Math.round(255 * config.watermarkOpacity)]),
+          raw: { width: 1, height: 1, channels: 4 },
+          tile: true,
+          blend: 'dest-in'
+        }])
+        .png()
+        .toBuffer({ resolveWithObject: true })
+      overlay = { input: data, width: info.width, height: info.height }
+    } else if (config.watermarkText) {
+      overlay = renderText(config.watermarkText, maxWidth, Math.min(width, height), config.watermarkOpacity)
+    } else {
+      return
+    }
+
+    return { input: overlay.input, ...placeOverlay(config.watermarkPosition, width, height, overlay, margin) }
+  }
+
+  // 不需要任何处理时原样返回，避免无谓的重新编码
+  async function transform(image: InputImage): Promise<InputImage> {
+    const hasWatermark = !!(config.watermarkImage || config.watermarkText)
+    if (config.outputFormat === 'original' && !config.maxOutputEdge && !config.stripMetadata && !hasWatermark) {
+      return image
+    }
+
+    const buffer = Buffer.from(image.data, 'base64')
+    const metadata = await sharp(buffer).metadata()
+    let width = metadata.width || 0
+    let height = metadata.height || 0
+    // EXIF 方向为 5 至 8 时旋转后宽高互换
+    if ((metadata.orientation || 1) >= 5) [width, height] = [height, width]
+
+    let pipeline = sharp(buffer).rotate()
+    if (config.maxOutputEdge && Math.max(width, height) > config.maxOutputEdge) {
+      const ratio = config.maxOutputEdge / Math.max(width, height)
+      width = Math.round(width * ratio)
+      height = Math.round(height * ratio)
+      pipeline = pipeline.resize({ width: config.maxOutputEdge, height: config.maxOutputEdge, fit: 'inside' })
+    }
+
+    if (hasWatermark) {
+      try {
+        const overlay = await renderWatermark(width, height)
+        if (overlay) pipeline = pipeline.composite([overlay])
+      } catch (error) {
+        logger.warn('添加水印失败，跳过水印', { error })
+      }
+    }
+
+    const format = config.outputFormat === 'original' ? formats[image.mimeType] || 'png' : config.outputFormat
+    pipeline = format === 'png'
+      ? pipeline.png()
+      : pipeline.toFormat(format, { quality: config.outputQuality })
+    if (!config.stripMetadata) pipeline = pipeline.withMetadata()
+
+    const output = await pipeline.toBuffer()
+    return { mimeType: `image/${format}`, data: output.toString('base64') }
+  }
+
+  // 按配置上传，返回可直接用于 h.image 的地址；上传失败时改为 data URL
+  async function host(image: InputImage): Promise<string> {
+    const dataUrl = `data:${image.mimeType};base64,${image.data}`
+    if (config.outputHosting === 'inline') return dataUrl
+
+    const buffer = Buffer.from(image.data, 'base64')
+    const hash = createHash('sha256').update(buffer).digest('hex').slice(0, 32)
+    const filename = `${hash}.${extensions[image.mimeType] || 'png'}`
+    try {
+      if (config.outputHosting === 'assets') {
+        if (!ctx.assets) throw new Error('未找到 assets 服务')
+        return await ctx.assets.upload(dataUrl, filename)
+      }
+      if (!hostUrl) throw new Error('未找到 server 服务')
+      const url = hostUrl(filename)
+      if (!url) throw new Error('未配置 outputBaseUrl，且 server 服务没有可用的地址')
+      await mkdir(root, { recursive: true })
+      await writeFile(resolve(root, filename), buffer)
+      return url
+    } catch (error) {
+      logger.warn('上传结果图片失败，改为直接发送', { hosting: config.outputHosting, error })
+      return dataUrl
+    }
+  }
+
+  // 处理提供方返回的结果：远程地址（如 fileUri）先下载，再后处理并上传；下载失败的结果被丢弃
+  async function process(urls: string[], signal?: AbortSignal): Promise<OutputImage[]> {
+    const outputs = await Promise.all(urls.map(async (url) => {
+      let image: InputImage
+      try {
+        image = await abortable(fetchImage(ctx, url, config.apiTimeout * 1000), signal)
+      } catch (error) {
+        if (signal?.aborted) throw error
+        logger.warn('下载生成结果失败', { error })
+        return
+      }
+      try {
+        image = await transform(image)
+      } catch (error) {
+        logger.warn('结果图片后处理失败，使用原图', { error })
+      }
+      return { image, src: await host(image) }
+    }))
+    return outputs.filter((output): output is OutputImage => !!output)
+  }
+
+  // 清理过期的本地发送文件
+  async function prune() {
+    if (config.outputHosting !== 'local' || !config.outputRetention) return
+    const expiresBefore = Date.now() - config.outputRetention * 3600000
+    let names: string[]
+    try {
+      names = await readdir(root)
+    } catch {
+      return
+    }
+    for (const name of names) {
+      const file = resolve(root, name)
+      try {
+        if ((await stat(file)).mtimeMs < expiresBefore) await unlink(file)
+      } catch (error) {
+        logger.warn('清理本地发送文件失败', { name, error })
+      }
+    }
+  }
+
+  return { process, host, prune }
+}
+
+export type Outputs = ReturnType<typeof createOutputs>
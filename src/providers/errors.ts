@@ -0,0 +1,69 @@
+import { HTTP } from 'koishi'
+
+// 提供方错误分类：认证失败、额度或限流、请求无效、上游服务错误、网络或超时
+export type ProviderErrorKind = 'auth' | 'quota' | 'invalid' | 'upstream' | 'network' | 'unknown'
+
+// 可以重试的错误类型
+const retryableKinds: ProviderErrorKind[] = ['quota', 'upstream', 'network']
+
+// message 只包含错误分类，不会泄露API密钥；展示给用户的提示按 kind 取本地化文本 yunwu-figurine.provider.*
+export class ProviderError extends Error {
+  constructor(
+    public kind: ProviderErrorKind,
+    public status?: number,
+    public retryAfter?: number,   // 毫秒，来自 Retry-After 响应头
+  ) {
+    super(`图像服务调用失败：${kind}`)
+    this.name = 'ProviderError'
+  }
+
+  get retryable() {
+    return retryableKinds.includes(this.kind)
+  }
+}
+
+// 所有提供方都不可用（熔断中），提示文本为 yunwu-figurine.circuit-open
+export class CircuitOpenError extends Error {
+  constructor(public retryIn: number) {
+    super(`图像服务熔断中，${Math.ceil(retryIn / 1000)} 秒后恢复`)
+    this.name = 'CircuitOpenError'
+  }
+}
+
+const networkCodes = ['ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT']
+
+// Retry-After 可能是秒数或 HTTP 日期
+function parseRetryAfter(value: string | null | undefined) {
+  if (!value) return
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now())
+}
+
+function kindOfStatus(status: number): ProviderErrorKind {
+  if (status === 401 || status === 403) return 'auth'
+  if (status === 402 || status === 429) return 'quota'
+  if (status === 408) return 'network'
+  if (status >= 500) return 'upstream'
+  if (status >= 400) return 'invalid'
+  return 'unknown'
+}
+
+// 把 HTTP 请求抛出的原始错误转换为 ProviderError
+export function classifyError(error: any): ProviderError {
+  if (error instanceof ProviderError) return error
+
+  const response: HTTP.Response | undefined = error?.response
+  if (response?.status) {
+    const retryAfter = parseRetryAfter(response.headers?.get?.('retry-after'))
+    return new ProviderError(kindOfStatus(response.status), response.status, retryAfter)
+  }
+
+  const code = error?.code || error?.cause?.code
+  if (HTTP.Error.is(error) || networkCodes.includes(code) || error?.name === 'TimeoutError') {
+    return new ProviderError('network')
+  }
+
+  return new ProviderError('unknown')
+}
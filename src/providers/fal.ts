@@ -0,0 +1,126 @@
+import { Context, Logger } from 'koishi'
+import { Config } from '../config'
+import { ImageEditRequest, ImageProvider, ParamSupport } from '.'
+import { classifyError, ProviderError } from './errors'
+import { sleep } from '../scheduler'
+
+interface FalQueueResponse {
+  status: string
+  request_id: string
+  response_url: string
+  status_url: string
+  queue_position?: number
+}
+
+const aspectRatios = ['21:9', '16:9', '3:2', '4:3', '5:4', '1:1', '4:5', '3:4', '2:3', '9:16']
+
+// nano-banana 系列支持宽高比，pro 版本支持指定分辨率，均不支持随机种子与温度
+function supportOf(model: string): ParamSupport {
+  return {
+    aspectRatios,
+    imageSizes: model.includes('-pro') ? ['1K', '2K', '4K'] : [],
+    seed: false,
+    temperature: false
+  }
+}
+
+export function createFalProvider(ctx: Context, config: Config, logger: Logger): ImageProvider {
+  const headers = (apiKey: string) => ({
+    'Authorization': `Bearer ${apiKey}`,
+    'Content-Type': 'application/json'
+  })
+
+  // 提交任务到 fal-ai 队列，没有输入图片时使用编辑模型对应的文生图模型（去掉 /edit 后缀）
+  async function submit(request: ImageEditRequest): Promise<FalQueueResponse> {
+    const textOnly = !request.images.length
+    const model = textOnly ? request.model.replace(/\/edit$/, '') : request.model
+    const { aspectRatio, imageSize } = request.params || {}
+    const support = supportOf(model)
+    const requestData = {
+      prompt: request.prompt,
+      // ⚠️ 字段名是 image_urls（数组），fal-ai 接受 data URI
+      ...textOnly ? {} : { image_urls: request.images.map(image => `data:${image.mimeType};base64,${image.data}`) },
+      num_images: request.numImages,
+      ...aspectRatio && support.aspectRatios.includes(aspectRatio) ? { aspect_ratio: aspectRatio } : {},
+      ...imageSize && support.imageSizes.includes(imageSize) ? { resolution: imageSize } : {}
+    }
+
+    return ctx.http.post(`${config.apiBaseUrl}/fal-ai/${model}`, requestData, {
+      headers: headers(request.apiKey),
+      timeout: config.apiTimeout * 1000,
+      signal: request.signal
+    })
+  }
+
+  // 轮询 status_url 直到任务完成
+  async function waitForCompletion(queued: FalQueueResponse, request: ImageEditRequest) {
+    const { signal } = request
+    for (let attempt = 0; attempt < config.maxPollAttempts; attempt++) {
+      const status = await ctx.http.get(queued.status_url, {
+        headers: headers(request.apiKey),
+        timeout: config.apiTimeout * 1000,
+        signal
+      })
+
+      logger.debug('fal-ai 任务状态', {
+        requestId: queued.request_id,
+        status: status?.status,
+        queuePosition: status?.queue_position
+      })
+
+      if (status?.status === 'COMPLETED') return
+      if (status?.status === 'FAILED' || status?.status === 'ERROR') {
+        logger.warn('fal-ai 任务执行失败', { requestId: queued.request_id, status: status?.status })
+        throw new ProviderError('upstream')
+      }
+
+      await sleep(config.pollInterval * 1000, signal)
+    }
+
+    logger.warn('fal-ai 任务轮询超时', { requestId: queued.request_id })
+    throw new ProviderError('network')
+  }
+
+  return {
+    name: 'fal',
+    supportsHistory: false,
+    supportsBatch: true,
+    defaultModel: config.falModelId,
+    support: supportOf,
+    async edit(request) {
+      logger.debug('提交 fal-ai 队列任务', {
+        prompt: request.prompt,
+        model: request.model,
+        imageCount: request.images.length,
+        numImages: request.numImages
+      })
+
+      try {
+        const queued = await submit(request)
+        await waitForCompletion(queued, request)
+
+        const result = await ctx.http.get(queued.response_url, {
+          headers: headers(request.apiKey),
+          timeout: config.apiTimeout * 1000,
+          signal: request.signal
+        })
+
+        const images: string[] = (result?.images || [])
+          .map((image: any) => image?.url)
+          .filter(Boolean)
+
+        logger.success('fal-ai 任务完成', { requestId: queued.request_id, imageCount: images.length })
+        return { images }
+      } catch (error: any) {
+        if (request.signal?.aborted) throw request.signal.reason
+        logger.error('fal-ai 图像编辑调用失败', {
+          message: error?.message || '未知错误',
+          code: error?.code,
+          status: error?.response?.status
+        })
+        // 不要直接抛出原始错误，避免泄露API密钥
+        throw classifyError(error)
+      }
+    }
+  }
+}
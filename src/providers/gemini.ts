@@ -0,0 +1,202 @@
+import { Context, Logger } from 'koishi'
+import { Config } from '../config'
+import { ImageEditRequest, ImageEditResult, ImageProvider, InputImage, ParamSupport, Refusal, RefusalCategory, TokenUsage } from '.'
+import { classifyError } from './errors'
+
+const aspectRatios = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9']
+
+// finishReason 与拒绝原因的对应关系，未列出的按是否返回文字判断
+const finishReasons: Record<string, RefusalCategory> = {
+  SAFETY: 'safety',
+  IMAGE_SAFETY: 'safety',
+  PROHIBITED_CONTENT: 'safety',
+  IMAGE_PROHIBITED_CONTENT: 'safety',
+  BLOCKLIST: 'safety',
+  SPII: 'safety',
+  RECITATION: 'recitation',
+  IMAGE_RECITATION: 'recitation',
+  MAX_TOKENS: 'truncated'
+}
+
+// 解析 Gemini 响应，提取图片 URL
+export function parseGeminiResponse(response: any, logger?: Logger): string[] {
+  try {
+    const images: string[] = []
+
+    if (response.candidates && response.candidates.length > 0) {
+      for (const candidate of response.candidates) {
+        if (candidate.content && candidate.content.parts) {
+          for (const part of candidate.content.parts) {
+            // 检查是否有 inlineData（Base64 图片，驼峰命名）
+            if (part.inlineData && part.inlineData.data) {
+              const base64Data = part.inlineData.data
+              const mimeType = part.inlineData.mimeType || 'image/jpeg'
+              const dataUrl = `data:${mimeType};base64,${base64Data}`
+              images.push(dataUrl)
+            }
+            // 兼容下划线命名
+            else if (part.inline_data && part.inline_data.data) {
+              const base64Data = part.inline_data.data
+              const mimeType = part.inline_data.mime_type || 'image/jpeg'
+              const dataUrl = `data:${mimeType};base64,${base64Data}`
+              images.push(dataUrl)
+            }
+            // 检查是否有 fileData（文件引用）
+            else if (part.fileData && part.fileData.fileUri) {
+              images.push(part.fileData.fileUri)
+            }
+          }
+        }
+      }
+    }
+
+    return images
+  } catch (error) {
+    logger?.error('解析 Gemini 响应失败', error)
+    return []
+  }
+}
+
+// 提取模型返回的文字
+export function parseGeminiText(response: any) {
+  const texts: string[] = []
+  for (const candidate of response?.candidates || []) {
+    for (const part of candidate?.content?.parts || []) {
+      if (typeof part?.text === 'string' && !part.thought) texts.push(part.text.trim())
+    }
+  }
+  return texts.filter(Boolean).join('\n')
+}
+
+// 没有图片时判断原因：提示词被拦截、候选结果因安全等原因终止，或只返回了文字
+function parseGeminiRefusal(response: any, text: string): Refusal {
+  const blockReason = response?.promptFeedback?.blockReason
+  if (blockReason) {
+    return { category: 'prompt_blocked', reason: blockReason, details: response.promptFeedback.safetyRatings }
+  }
+
+  const candidate = response?.candidates?.[0]
+  if (!candidate) return { category: 'other', reason: 'NO_CANDIDATES' }
+
+  const finishReason: string = candidate.finishReason || 'UNKNOWN'
+  const blockedRatings = (candidate.safetyRatings || []).filter((rating: any) => rating?.blocked)
+  const category = finishReasons[finishReason] || (blockedRatings.length ? 'safety' : text ? 'text_only' : 'other')
+  return { category, reason: finishReason, details: blockedRatings.length ? blockedRatings : undefined }
+}
+
+// 提取 usageMetadata 中的 token 用量
+export function parseGeminiUsage(response: any): TokenUsage | undefined {
+  const metadata = response?.usageMetadata
+  if (!metadata) return
+  return {
+    inputTokens: metadata.promptTokenCount || 0,
+    outputTokens: metadata.candidatesTokenCount || 0
+  }
+}
+
+// 解析完整的 Gemini 响应：图片、文字、token 用量，以及没有图片时的原因
+export function inspectGeminiResponse(response: any, logger?: Logger): ImageEditResult {
+  const images = parseGeminiResponse(response, logger)
+  const text = parseGeminiText(response) || undefined
+  const usage = parseGeminiUsage(response)
+  if (images.length) return { images, text, usage }
+  return { images, text, usage, refusal: parseGeminiRefusal(response, text || '') }
+}
+
+export function buildContent(role: 'user' | 'model', text: string | undefined, images: InputImage[]) {
+  return {
+    role,
+    parts: [
+      ...(text ? [{ text }] : []),
+      ...images.map(image => ({
+        inline_data: {
+          mime_type: image.mimeType,
+          data: image.data
+        }
+      }))
+    ]
+  }
+}
+
+// Gemini 图像模型都支持宽高比、随机种子与温度，指定分辨率只有 Gemini 3 系列支持
+function supportOf(model: string): ParamSupport {
+  return {
+    aspectRatios,
+    imageSizes: model.startsWith('gemini-3') ? ['1K', '2K', '4K'] : [],
+    seed: true,
+    temperature: true
+  }
+}
+
+export function createGeminiProvider(ctx: Context, config: Config, logger: Logger): ImageProvider {
+  // 调用 Gemini 图像编辑 API
+  async function callGeminiImageEdit(request: ImageEditRequest) {
+    const { prompt, images, model, numImages, history = [], params = {} } = request
+    const support = supportOf(model)
+    const imageConfig = {
+      ...params.aspectRatio && support.aspectRatios.includes(params.aspectRatio) ? { aspectRatio: params.aspectRatio } : {},
+      ...params.imageSize && support.imageSizes.includes(params.imageSize) ? { imageSize: params.imageSize } : {},
+    }
+
+    // 构建 Gemini API 请求体，多轮编辑时先放入之前的对话
+    const requestData = {
+      contents: [
+        ...history.map(turn => buildContent(turn.role, turn.text, turn.images)),
+        buildContent('user', prompt, images)
+      ],
+      generationConfig: {
+        responseModalities: ["IMAGE"],
+        ...params.temperature !== undefined ? { temperature: params.temperature } : {},
+        ...params.seed !== undefined ? { seed: params.seed } : {},
+        ...Object.keys(imageConfig).length ? { imageConfig } : {}
+      }
+    }
+
+    logger.debug('调用 Gemini 图像编辑 API', { prompt, model, imageCount: images.length, numImages, turns: history.length, generationConfig: requestData.generationConfig })
+
+    try {
+      const response = await ctx.http.post(
+        `${config.apiBaseUrl}/v1beta/models/${model}:generateContent`,
+        requestData,
+        {
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          params: {
+            key: request.apiKey
+          },
+          timeout: config.apiTimeout * 1000,
+          signal: request.signal
+        }
+      )
+
+      // 响应中包含 Base64 图片，只记录用量与结束原因
+      logger.success('Gemini 图像编辑 API 调用成功', {
+        usage: response?.usageMetadata,
+        finishReasons: response?.candidates?.map((candidate: any) => candidate?.finishReason)
+      })
+      return response
+    } catch (error: any) {
+      if (request.signal?.aborted) throw request.signal.reason
+      logger.error('Gemini 图像编辑 API 调用失败', {
+        message: error?.message || '未知错误',
+        code: error?.code,
+        status: error?.response?.status
+      })
+      // 不要直接抛出原始错误，避免泄露API密钥
+      throw classifyError(error)
+    }
+  }
+
+  return {
+    name: 'gemini',
+    supportsHistory: true,
+    supportsBatch: false,
+    defaultModel: config.modelId,
+    support: supportOf,
+    async edit(request) {
+      const response = await callGeminiImageEdit(request)
+      return inspectGeminiResponse(response, logger)
+    }
+  }
+}
@@ -0,0 +1,302 @@
+import { Context, Logger } from 'koishi'
+import { Config, GenerationParams, ProviderName, ProviderRoute, StyleConfig } from '../config'
+import { createGeminiProvider } from './gemini'
+import { createFalProvider } from './fal'
+import { createOpenAIProvider } from './openai'
+import { createMockProvider } from './mock'
+import { CircuitOpenError, classifyError, ProviderError, ProviderErrorKind } from './errors'
+import { CircuitBreaker, RetryOptions, withRetry } from './retry'
+import { KeyPool } from '../keys'
+
+export * from './errors'
+export * from './retry'
+
+export interface InputImage {
+  data: string      // Base64，不含 data: 前缀
+  mimeType: string
+}
+
+// 多轮对话中之前的一轮
+export interface HistoryTurn {
+  role: 'user' | 'model'
+  text?: string
+  images: InputImage[]
+}
+
+export interface ImageEditRequest {
+  prompt: string
+  images: InputImage[]
+  model: string
+  apiKey: string
+  numImages: number
+  history?: HistoryTurn[]
+  params?: GenerationParams
+  signal?: AbortSignal
+}
+
+// 模型支持的生成参数，列表为空表示不支持
+export interface ParamSupport {
+  aspectRatios: string[]
+  imageSizes: string[]
+  seed: boolean
+  temperature: boolean
+}
+
+// 模型没有返回图片的原因，提示文本为 yunwu-figurine.refusal.*
+export type RefusalCategory = 'prompt_blocked' | 'safety' | 'recitation' | 'truncated' | 'text_only' | 'other'
+
+export interface Refusal {
+  category: RefusalCategory
+  reason: string      // 提供方返回的原始原因，如 blockReason、finishReason，只用于日志
+  details?: unknown   // 安全评级等附加信息，只用于日志
+}
+
+// 提供方返回的 token 用量
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface ImageEditResult {
+  images: string[]  // data URL 或远程 URL
+  text?: string     // 模型返回的文字
+  refusal?: Refusal // 没有返回图片时的原因
+  usage?: TokenUsage
+}
+
+// 单次调用的结果：成功、没有返回图片，或错误类型
+export type CallOutcome = 'success' | 'refused' | ProviderErrorKind
+
+// 每次调用提供方后的记录，用于用量统计
+export interface CallRecord {
+  provider: ProviderName
+  model: string
+  outcome: CallOutcome
+  images: number
+  usage?: TokenUsage
+  duration: number    // 毫秒
+}
+
+
+export interface ImageProvider {
+  name: ProviderName
+  defaultModel: string
+  // 是否原生支持一次请求生成多张（num_images / n），否则并发多次请求
+  supportsBatch: boolean
+  // 是否支持多轮对话上下文，否则以上一轮的输出图片作为输入
+  supportsHistory: boolean
+  // 不调用远程服务，不需要API密钥
+  offline?: boolean
+  support(model: string): ParamSupport
+  edit(request: ImageEditRequest): Promise<ImageEditResult>
+}
+
+export type ProviderRegistry = Record<ProviderName, ImageProvider>
+
+export function createProviders(ctx: Context, config: Config, logger: Logger): ProviderRegistry {
+  return {
+    gemini: createGeminiProvider(ctx, config, logger),
+    fal: createFalProvider(ctx, config, logger),
+    openai: createOpenAIProvider(ctx, config, logger),
+    mock: createMockProvider(ctx, config, logger),
+  }
+}
+
+// 解析风格的调用链：主提供方在前，降级链依次在后，重复项只保留第一次出现
+export function resolveRoutes(config: Config, style?: Pick<StyleConfig, 'provider' | 'model' | 'fallbacks'>): ProviderRoute[] {
+  const primary: ProviderRoute = {
+    provider: style?.provider || config.defaultProvider,
+    model: style?.model || undefined
+  }
+  const fallbacks = style?.fallbacks?.length ? style.fallbacks : config.fallbacks || []
+
+  const routes: ProviderRoute[] = []
+  const seen = new Set<string>()
+  for (const route of [primary, ...fallbacks]) {
+    if (!route?.provider) continue
+    const key = `${route.provider}:${route.model || ''}`
+    if (seen.has(key)) continue
+    seen.add(key)
+    routes.push(route)
+  }
+  return routes
+}
+
+// 单次 HTTP 调用，由调用方为每次调用分配密钥
+type EditCall = (request: Omit<ImageEditRequest, 'apiKey'>) => Promise<ImageEditResult>
+
+// 在单个提供方上生成 numImages 张图片，不支持批量的提供方并发请求，部分失败时保留成功的结果
+async function editOnProvider(provider: ImageProvider, request: Omit<ImageEditRequest, 'apiKey'>, logger: Logger, edit: EditCall): Promise<ImageEditResult> {
+  if (request.history?.length && !provider.supportsHistory) {
+    const lastOutput = [...request.history].reverse().find(turn => turn.role === 'model')
+    request = {
+      ...request,
+      history: undefined,
+      images: request.images.length ? request.images : lastOutput?.images || []
+    }
+  }
+
+  if (provider.supportsBatch || request.numImages <= 1) {
+    return edit(request)
+  }
+
+  const settled = await Promise.allSettled(
+    Array.from({ length: request.numImages }, () => edit({ ...request, numImages: 1 }))
+  )
+
+  const images: string[] = []
+  const texts: string[] = []
+  let refusal: Refusal | undefined
+  let usage: TokenUsage | undefined
+  let failed = 0
+  for (const item of settled) {
+    if (item.status === 'fulfilled') {
+      images.push(...item.value.images)
+      if (item.value.text) texts.push(item.value.text)
+      refusal ||= item.value.refusal
+      if (item.value.usage) {
+        usage = {
+          inputTokens: (usage?.inputTokens || 0) + item.value.usage.inputTokens,
+          outputTokens: (usage?.outputTokens || 0) + item.value.usage.outputTokens,
+        }
+      }
+    } else {
+      failed++
+    }
+  }
+
+  if (failed === settled.length) {
+    throw (settled[0] as PromiseRejectedResult).reason
+  }
+  if (failed) {
+    logger.warn('部分并发请求失败', { provider: provider.name, failed, total: settled.length })
+  }
+  return { images, text: texts.join('\n') || undefined, refusal: images.length ? undefined : refusal, usage }
+}
+
+// 生成参数不被支持，key 与 params 对应本地化文本 yunwu-figurine.params.*
+export interface ParamIssue {
+  key: string
+  params: (string | number)[]
+}
+
+// 按主提供方的模型校验生成参数，不支持时返回原因；降级链上的提供方会忽略各自不支持的参数
+export function validateParams(providers: ProviderRegistry, route: ProviderRoute, params: GenerationParams): ParamIssue | undefined {
+  const provider = providers[route.provider]
+  if (!provider) return
+  const model = route.model || provider.defaultModel
+  const support = provider.support(model)
+
+  if (params.aspectRatio && !support.aspectRatios.includes(params.aspectRatio)) {
+    return support.aspectRatios.length
+      ? { key: 'ratio-unsupported', params: [model, params.aspectRatio, support.aspectRatios.join('/')] }
+      : { key: 'ratio-unavailable', params: [model] }
+  }
+  if (params.imageSize && !support.imageSizes.includes(params.imageSize)) {
+    return support.imageSizes.length
+      ? { key: 'size-unsupported', params: [model, params.imageSize, support.imageSizes.join('/')] }
+      : { key: 'size-unavailable', params: [model] }
+  }
+  if (params.seed !== undefined && !support.seed) {
+    return { key: 'seed-unavailable', params: [model] }
+  }
+  if (params.temperature !== undefined) {
+    if (!support.temperature) return { key: 'temperature-unavailable', params: [model] }
+    if (params.temperature < 0 || params.temperature > 2) return { key: 'temperature-range', params: [] }
+  }
+}
+
+// 负面提示词没有提供方原生支持，统一附加在 prompt 末尾
+function applyNegativePrompt(prompt: string, params?: GenerationParams) {
+  if (!params?.negativePrompt) return prompt
+  return `${prompt}\n\nNegative prompt: ${params.negativePrompt}`
+}
+
+export interface FallbackOptions {
+  retry: RetryOptions
+  breaker: CircuitBreaker
+  keys: KeyPool
+  onCall?: (record: CallRecord) => void
+}
+
+// 按调用链依次尝试，每个提供方先按退避策略重试，仍失败或处于熔断中则切换到下一个
+export async function editWithFallback(
+  providers: ProviderRegistry,
+  routes: ProviderRoute[],
+  request: Omit<ImageEditRequest, 'model' | 'apiKey'>,
+  logger: Logger,
+  options: FallbackOptions
+): Promise<ImageEditResult & { route: ProviderRoute }> {
+  let lastError: unknown = new Error('没有可用的图像服务提供方')
+  let retryIn = Infinity
+
+  for (const route of routes) {
+    const provider = providers[route.provider]
+    if (!provider) {
+      logger.warn('未知的提供方，已跳过', { provider: route.provider })
+      continue
+    }
+
+    const remaining = options.breaker.remaining(route.provider)
+    if (remaining > 0) {
+      logger.debug('提供方熔断中，已跳过', { provider: route.provider, remaining })
+      retryIn = Math.min(retryIn, remaining)
+      continue
+    }
+
+    request.signal?.throwIfAborted()
+    const model = route.model || provider.defaultModel
+    try {
+      // 每次 HTTP 调用都重新从密钥池取密钥并单独记录用量，并发请求各自计入；额度不足或认证失败的密钥会被暂时移出轮换
+      const edit: EditCall = async (request) => {
+        const lease = provider.offline ? undefined : options.keys.acquire()
+        const startedAt = Date.now()
+        try {
+          const result = await provider.edit({ ...request, apiKey: lease?.key || '' })
+          if (lease) options.keys.success(lease)
+          options.onCall?.({
+            provider: route.provider,
+            model,
+            outcome: result.images.length ? 'success' : 'refused',
+            images: result.images.length,
+            usage: result.usage,
+            duration: Date.now() - startedAt
+          })
+          return result
+        } catch (error) {
+          // 取消或超时中止的请求不计入
+          if (!request.signal?.aborted) {
+            const classified = classifyError(error)
+            if (lease) options.keys.failure(lease, classified)
+            options.onCall?.({ provider: route.provider, model, outcome: classified.kind, images: 0, duration: Date.now() - startedAt })
+          }
+          throw error
+        }
+      }
+      const result = await withRetry(() => {
+        const prompt = applyNegativePrompt(request.prompt, request.params)
+        return editOnProvider(provider, { ...request, prompt, model }, logger, edit)
+      },
+        options.retry,
+        logger,
+        `${route.provider}:${model}`,
+        request.signal
+      )
+      options.breaker.success(route.provider)
+      return { ...result, route: { provider: route.provider, model } }
+    } catch (error) {
+      // 任务被取消或超时，不再尝试降级链
+      if (request.signal?.aborted) throw request.signal.reason
+      const classified = classifyError(error)
+      options.breaker.failure(route.provider, classified)
+      lastError = classified
+      logger.warn('提供方调用失败，尝试下一个', { provider: route.provider, model, kind: classified.kind, status: classified.status })
+    }
+  }
+
+  // 所有提供方都在熔断中
+  if (retryIn !== Infinity && !(lastError instanceof ProviderError)) {
+    throw new CircuitOpenError(retryIn)
+  }
+  throw lastError
+}
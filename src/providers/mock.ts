@@ -0,0 +1,140 @@
+import { createHash } from 'crypto'
+import { Context, Logger } from 'koishi'
+import sharp from 'sharp'
+import { Config, MockScenario } from '../config'
+import { sleep } from '../scheduler'
+import { renderSvg, svgText } from '../svg'
+import { ImageEditRequest, ImageProvider } from '.'
+import { inspectGeminiResponse } from './gemini'
+import { ProviderError } from './errors'
+
+const aspectRatios = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9']
+
+const scenarios: MockScenario[] = ['success', 'safety', 'prompt_blocked', 'empty', 'text_only', 'quota', 'upstream', 'timeout']
+
+// 输出图片的长边（像素），只用于占位，不随分辨率参数变化
+const edge = 768
+
+// prompt 中的 [mock:场景] 指定本次请求的模拟场景，优先于配置
+function scenarioOf(prompt: string, fallback: MockScenario) {
+  const matched = prompt.match(/\[mock:(\w+)\]/)
+  const scenario = matched?.[1] as MockScenario | undefined
+  return scenario && scenarios.includes(scenario) ? scenario : fallback
+}
+
+function dimensionsOf(aspectRatio?: string) {
+  const [width, height] = (aspectRatio || '1:1').split(':').map(Number)
+  return width >= height
+    ? { width: edge, height: Math.round(edge * height / width) }
+    : { width: Math.round(edge * width / height), height: edge }
+}
+
+// 底部半透明标签：第一行为 prompt 摘要，第二行为模型、尺寸、种子与序号
+function renderStamp(lines: string[], width: number) {
+  const height = 72
+  const input = renderSvg(width, height, [
+    '<rect width="100%" height="100%" fill="#000000" fill-opacity="0.6"/>',
+    ...lines.map((line, index) => svgText(line, { x: 16, y: 28 + index * 28, 'font-size': 20, fill: '#ffffff' })),
+  ])
+  return { input, top: 0, left: 0, height }
+}
+
+// 生成占位图片：有输入图片时在第一张图片上盖章，否则按 prompt 与种子的哈希填充纯色，相同请求总是得到相同的结果
+async function renderImage(request: ImageEditRequest, index: number) {
+  const { width, height } = dimensionsOf(request.params?.aspectRatio)
+  const hash = createHash('sha256')
+    .update(request.prompt)
+    .update(String(request.params?.seed ?? ''))
+    .update(String(index))
+    .digest('hex')
+
+  const base = request.images[0]
+    ? sharp(Buffer.from(request.images[0].data, 'base64')).resize({ width, height, fit: 'cover' })
+    : sharp({ create: { width, height, channels: 3, background: `#${hash.slice(0, 6)}` } })
+
+  const summary = request.prompt.replace(/\s+/g, ' ').trim()
+  const details = [
+    request.model,
+    `${width}x${height}`,
+    ...request.params?.seed !== undefined ? [`seed ${request.params.seed}`] : [],
+    `#${index + 1}`,
+  ]
+  const stamp = renderStamp([summary.length > 32 ? `${summary.slice(0, 32)}…` : summary, details.join(' · ')], width)
+  const buffer = await base
+    .composite([{ input: stamp.input, left: 0, top: height - stamp.height }])
+    .png()
+    .toBuffer()
+  return buffer.toString('base64')
+}
+
+// 按场景构造 Gemini 格式的响应，与真实响应走同一套解析逻辑
+async function buildResponse(request: ImageEditRequest, scenario: MockScenario) {
+  switch (scenario) {
+    case 'safety':
+      return {
+        candidates: [{
+          finishReason: 'IMAGE_SAFETY',
+          safetyRatings: [{ category: 'HARM_CATEGORY_DANGEROUS_CONTENT', probability: 'HIGH', blocked: true }]
+        }]
+      }
+    case 'prompt_blocked':
+      return { promptFeedback: { blockReason: 'SAFETY' } }
+    case 'empty':
+      return { candidates: [] }
+    case 'text_only':
+      return {
+        candidates: [{
+          finishReason: 'STOP',
+          content: { parts: [{ text: '这是模拟的文字回复，没有生成图片。' }] }
+        }]
+      }
+    default:
+      return {
+        candidates: await Promise.all(Array.from({ length: request.numImages }, async (_, index) => ({
+          finishReason: 'STOP',
+          content: { parts: [{ inlineData: { mimeType: 'image/png', data: await renderImage(request, index) } }] }
+        }))),
+        // 按 Gemini 的计费方式估算：每张输入图片 258 token，每张输出图片 1290 token
+        usageMetadata: {
+          promptTokenCount: request.prompt.length + request.images.length * 258,
+          candidatesTokenCount: request.numImages * 1290
+        }
+      }
+  }
+}
+
+// 本地模拟提供方：不调用任何API，用于离线开发与测试命令流程
+export function createMockProvider(ctx: Context, config: Config, logger: Logger): ImageProvider {
+  return {
+    name: 'mock',
+    supportsHistory: false,
+    supportsBatch: true,
+    offline: true,
+    defaultModel: 'mock-image',
+    support: () => ({
+      aspectRatios,
+      imageSizes: ['1K', '2K', '4K'],
+      seed: true,
+      temperature: true
+    }),
+    async edit(request) {
+      const scenario = scenarioOf(request.prompt, config.mockScenario)
+      logger.debug('调用本地模拟提供方', { scenario, model: request.model, imageCount: request.images.length, numImages: request.numImages })
+
+      await sleep(config.mockLatency * 1000, request.signal)
+
+      switch (scenario) {
+        case 'quota':
+          throw new ProviderError('quota', 429)
+        case 'upstream':
+          throw new ProviderError('upstream', 500)
+        case 'timeout':
+          // 等待到请求超时时间后按网络超时处理
+          await sleep(config.apiTimeout * 1000, request.signal)
+          throw new ProviderError('network')
+      }
+
+      return inspectGeminiResponse(await buildResponse(request, scenario), logger)
+    }
+  }
+}
@@ -0,0 +1,123 @@
+import { Context, Logger } from 'koishi'
+import { Config } from '../config'
+import { ImageEditRequest, ImageProvider } from '.'
+import { classifyError } from './errors'
+
+// 宽高比与 size 字段的对应关系
+const sizes: Record<string, string> = {
+  '1:1': '1024x1024',
+  '3:2': '1536x1024',
+  '2:3': '1024x1536'
+}
+
+// 内容审核未通过时返回的错误码
+const moderationCodes = ['moderation_blocked', 'content_policy_violation']
+
+const extensions: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+}
+
+function sizeOf(request: ImageEditRequest) {
+  const aspectRatio = request.params?.aspectRatio
+  return aspectRatio ? sizes[aspectRatio] : undefined
+}
+
+export function createOpenAIProvider(ctx: Context, config: Config, logger: Logger): ImageProvider {
+  // 构建 multipart 表单，多张图片使用 image[] 字段
+  function buildForm(request: ImageEditRequest) {
+    const form = new FormData()
+    form.append('model', request.model)
+    form.append('prompt', request.prompt)
+    form.append('n', String(request.numImages))
+    const size = sizeOf(request)
+    if (size) form.append('size', size)
+
+    request.images.forEach((image, index) => {
+      const blob = new Blob([Buffer.from(image.data, 'base64')], { type: image.mimeType })
+      const ext = extensions[image.mimeType] || 'png'
+      form.append(request.images.length > 1 ? 'image[]' : 'image', blob, `image-${index}.${ext}`)
+    })
+
+    return form
+  }
+
+  return {
+    name: 'openai',
+    supportsHistory: false,
+    supportsBatch: true,
+    defaultModel: config.openaiModelId,
+    // 只支持三种固定尺寸，不支持随机种子与温度
+    support: () => ({
+      aspectRatios: Object.keys(sizes),
+      imageSizes: [],
+      seed: false,
+      temperature: false
+    }),
+    async edit(request) {
+      logger.debug('调用 OpenAI 兼容图像编辑 API', {
+        prompt: request.prompt,
+        model: request.model,
+        imageCount: request.images.length,
+        numImages: request.numImages
+      })
+
+      try {
+        // 没有输入图片时调用文生图接口
+        const response = request.images.length
+          ? await ctx.http.post(`${config.apiBaseUrl}/v1/images/edits`, buildForm(request), {
+            headers: {
+              'Authorization': `Bearer ${request.apiKey}`
+            },
+            timeout: config.apiTimeout * 1000,
+            signal: request.signal
+          })
+          : await ctx.http.post(`${config.apiBaseUrl}/v1/images/generations`, {
+            model: request.model,
+            prompt: request.prompt,
+            n: request.numImages,
+            ...sizeOf(request) ? { size: sizeOf(request) } : {}
+          }, {
+            headers: {
+              'Authorization': `Bearer ${request.apiKey}`,
+              'Content-Type': 'application/json'
+            },
+            timeout: config.apiTimeout * 1000,
+            signal: request.signal
+          })
+
+        const images: string[] = []
+        for (const item of response?.data || []) {
+          if (item?.b64_json) {
+            images.push(`data:image/png;base64,${item.b64_json}`)
+          } else if (item?.url) {
+            images.push(item.url)
+          }
+        }
+
+        const usage = response?.usage ? {
+          inputTokens: response.usage.input_tokens || 0,
+          outputTokens: response.usage.output_tokens || 0
+        } : undefined
+
+        logger.success('OpenAI 兼容图像编辑 API 调用成功', { imageCount: images.length, usage })
+        return { images, usage }
+      } catch (error: any) {
+        if (request.signal?.aborted) throw request.signal.reason
+        const code = error?.response?.data?.error?.code
+        if (moderationCodes.includes(code)) {
+          return { images: [], refusal: { category: 'safety', reason: code } }
+        }
+        logger.error('OpenAI 兼容图像编辑 API 调用失败', {
+          message: error?.message || '未知错误',
+          code: error?.code,
+          status: error?.response?.status
+        })
+        // 不要直接抛出原始错误，避免泄露API密钥
+        throw classifyError(error)
+      }
+    }
+  }
+}
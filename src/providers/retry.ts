@@ -0,0 +1,89 @@
+import { Logger } from 'koishi'
+import { ProviderName } from '../config'
+import { sleep } from '../scheduler'
+import { classifyError, ProviderError } from './errors'
+
+export interface RetryOptions {
+  maxRetries: number      // 最大重试次数，0 表示不重试
+  baseDelay: number       // 首次重试等待（毫秒），之后按指数增长
+  maxDelay: number        // 单次等待上限（毫秒），Retry-After 超出时不再重试
+}
+
+export interface CircuitOptions {
+  threshold: number       // 连续失败多少次后熔断，0 表示不熔断
+  cooldown: number        // 熔断持续时间（毫秒）
+}
+
+// 指数退避，附加随机抖动避免多个任务同时重试
+function backoff(attempt: number, options: RetryOptions) {
+  const delay = Math.min(options.maxDelay, options.baseDelay * 2 ** attempt)
+  return delay / 2 + Math.random() * delay / 2
+}
+
+// 可重试的错误按指数退避重试，服务返回 Retry-After 时按其等待
+export async function withRetry<T>(
+  task: () => Promise<T>,
+  options: RetryOptions,
+  logger: Logger,
+  label: string,
+  signal?: AbortSignal,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task()
+    } catch (error) {
+      if (signal?.aborted) throw signal.reason
+      const classified = classifyError(error)
+      if (!classified.retryable || attempt >= options.maxRetries) throw classified
+
+      const delay = classified.retryAfter ?? backoff(attempt, options)
+      if (delay > options.maxDelay) {
+        logger.warn('Retry-After 超出等待上限，不再重试', { label, retryAfter: delay })
+        throw classified
+      }
+
+      logger.info('请求失败，稍后重试', { label, kind: classified.kind, status: classified.status, attempt: attempt + 1, delay: Math.round(delay) })
+      await sleep(delay, signal)
+    }
+  }
+}
+
+// 按提供方熔断：连续失败达到阈值后在冷却期内不再调用，冷却结束后再次失败立即重新熔断，成功则恢复
+export function createCircuitBreaker(options: CircuitOptions, logger: Logger) {
+  const states = new Map<ProviderName, { failures: number, openUntil: number }>()
+
+  function state(provider: ProviderName) {
+    let current = states.get(provider)
+    if (!current) {
+      current = { failures: 0, openUntil: 0 }
+      states.set(provider, current)
+    }
+    return current
+  }
+
+  // 熔断中返回剩余时间（毫秒），否则返回 0
+  function remaining(provider: ProviderName) {
+    return Math.max(0, state(provider).openUntil - Date.now())
+  }
+
+  function success(provider: ProviderName) {
+    const current = state(provider)
+    current.failures = 0
+    current.openUntil = 0
+  }
+
+  // 请求无效不代表服务异常，不计入失败次数
+  function failure(provider: ProviderName, error: ProviderError) {
+    if (options.threshold <= 0 || error.kind === 'invalid') return
+    const current = state(provider)
+    current.failures++
+    if (current.failures >= options.threshold) {
+      current.openUntil = Date.now() + options.cooldown
+      logger.warn('提供方连续失败，暂停调用', { provider, kind: error.kind, cooldown: options.cooldown })
+    }
+  }
+
+  return { remaining, success, failure }
+}
+
+export type CircuitBreaker = ReturnType<typeof createCircuitBreaker>
@@ -0,0 +1,219 @@
+import { Context, Session } from 'koishi'
+import { Config } from './config'
+import { dayOf, monthOf } from './dates'
+import { TaskSession } from './session'
+
+declare module 'koishi' {
+  interface Tables {
+    yunwu_quota: YunwuQuota
+  }
+}
+
+export type QuotaScope = 'user' | 'guild'
+
+export interface YunwuQuota {
+  id: string          // `${scope}:${platform}:${id}`
+  scope: QuotaScope
+  day: string         // 计数所属日期 YYYY-MM-DD
+  month: string       // 计数所属月份 YYYY-MM
+  daily: number       // 当日已用
+  monthly: number     // 当月已用
+  bonus: number       // 管理员额外授予的额度，常规额度用完后扣除
+}
+
+export interface QuotaBalance {
+  scope: QuotaScope
+  daily: number
+  monthly: number
+  dailyLimit: number
+  monthlyLimit: number
+  bonus: number
+  remaining: number   // 可用额度，Infinity 表示不限
+}
+
+// 扣除的额度明细，失败时用于退还
+export interface QuotaCharge {
+  entries: { id: string, regular: number, bonus: number }[]
+}
+
+function currentPeriod() {
+  const now = new Date()
+  return { month: monthOf(now), day: dayOf(now) }
+}
+
+export function quotaId(scope: QuotaScope, platform: string, id: string) {
+  return `${scope}:${platform}:${id}`
+}
+
+export function createQuota(ctx: Context, config: Config) {
+  ctx.model.extend('yunwu_quota', {
+    id: 'string',
+    scope: 'string',
+    day: 'string',
+    month: 'string',
+    daily: 'unsigned',
+    monthly: 'unsigned',
+    bonus: 'unsigned',
+  }, {
+    primary: 'id',
+  })
+
+  // 同一主体的读写依次执行，避免并发任务读到相同的记录后互相覆盖计数
+  const locks = new Map<string, Promise<unknown>>()
+
+  // 涉及多个主体时按 ID 顺序加锁，避免互相等待
+  function exclusive<T>(ids: string[], task: () => Promise<T>): Promise<T> {
+    const [id, ...rest] = [...ids].sort()
+    if (!id) return task()
+    const current = (locks.get(id) || Promise.resolve()).then(() => exclusive(rest, task))
+    const settled = current.catch(() => {})
+    locks.set(id, settled)
+    settled.then(() => {
+      if (locks.get(id) === settled) locks.delete(id)
+    })
+    return current
+  }
+
+  function limitsOf(scope: QuotaScope) {
+    return scope === 'user'
+      ? { dailyLimit: config.userDailyQuota, monthlyLimit: config.userMonthlyQuota }
+      : { dailyLimit: config.guildDailyQuota, monthlyLimit: config.guildMonthlyQuota }
+  }
+
+  // 读取记录，跨日/跨月时计数归零
+  async function load(id: string, scope: QuotaScope): Promise<YunwuQuota> {
+    const { day, month } = currentPeriod()
+    const [row] = await ctx.database.get('yunwu_quota', { id })
+    const record: YunwuQuota = row || { id, scope, day, month, daily: 0, monthly: 0, bonus: 0 }
+    if (record.month !== month) {
+      record.month = month
+      record.monthly = 0
+    }
+    if (record.day !== day) {
+      record.day = day
+      record.daily = 0
+    }
+    return record
+  }
+
+  function toBalance(record: YunwuQuota): QuotaBalance {
+    const { dailyLimit, monthlyLimit } = limitsOf(record.scope)
+    const regular = Math.min(
+      dailyLimit > 0 ? dailyLimit - record.daily : Infinity,
+      monthlyLimit > 0 ? monthlyLimit - record.monthly : Infinity,
+    )
+    return {
+      scope: record.scope,
+      daily: record.daily,
+      monthly: record.monthly,
+      dailyLimit,
+      monthlyLimit,
+      bonus: record.bonus,
+      remaining: Math.max(regular, 0) + record.bonus,
+    }
+  }
+
+  async function balance(scope: QuotaScope, platform: string, id: string) {
+    return toBalance(await load(quotaId(scope, platform, id), scope))
+  }
+
+  // 会话涉及的额度主体：用户，以及群聊中的群组
+  function subjects(session: TaskSession) {
+    const result: { scope: QuotaScope, id: string }[] = [
+      { scope: 'user', id: quotaId('user', session.platform, session.userId!) }
+    ]
+    if (session.guildId) {
+      result.push({ scope: 'guild', id: quotaId('guild', session.platform, session.guildId) })
+    }
+    return result
+  }
+
+  // 检查并扣除额度，不足时返回提示文字
+  async function consume(session: TaskSession, cost: number): Promise<QuotaCharge | string> {
+    const charge: QuotaCharge = { entries: [] }
+    if (!config.quotaEnabled || cost <= 0) return charge
+
+    const targets = subjects(session)
+    return exclusive(targets.map(({ id }) => id), async () => {
+      const records = await Promise.all(targets.map(({ scope, id }) => load(id, scope)))
+      for (const record of records) {
+        const { remaining } = toBalance(record)
+        if (remaining < cost) {
+          return session.text(`yunwu-figurine.quota.${record.scope}-insufficient`, [remaining, cost])
+        }
+      }
+
+      for (const record of records) {
+        const { remaining, bonus } = toBalance(record)
+        const regular = Math.min(cost, remaining - bonus)
+        const fromBonus = cost - regular
+        record.daily += regular
+        record.monthly += regular
+        record.bonus -= fromBonus
+        await ctx.database.upsert('yunwu_quota', [record])
+        charge.entries.push({ id: record.id, regular, bonus: fromBonus })
+      }
+      return charge
+    })
+  }
+
+  // 按比例退还未使用的额度（生成失败或部分成功），先算出退还总数，再优先退回额外额度
+  async function refund(charge: QuotaCharge, ratio: number) {
+    for (const entry of charge.entries) {
+      const total = Math.min(Math.round((entry.regular + entry.bonus) * ratio), entry.regular + entry.bonus)
+      if (total <= 0) continue
+      const bonus = Math.min(entry.bonus, total)
+      const regular = total - bonus
+      await exclusive([entry.id], async () => {
+        const [record] = await ctx.database.get('yunwu_quota', { id: entry.id })
+        if (!record) return
+        const { day, month } = currentPeriod()
+        await ctx.database.set('yunwu_quota', { id: entry.id }, {
+          daily: record.day === day ? Math.max(record.daily - regular, 0) : record.daily,
+          monthly: record.month === month ? Math.max(record.monthly - regular, 0) : record.monthly,
+          bonus: record.bonus + bonus,
+        })
+      })
+    }
+  }
+
+  async function grant(scope: QuotaScope, platform: string, id: string, amount: number) {
+    const key = quotaId(scope, platform, id)
+    return exclusive([key], async () => {
+      const record = await load(key, scope)
+      record.bonus = Math.max(record.bonus + amount, 0)
+      await ctx.database.upsert('yunwu_quota', [record])
+      return toBalance(record)
+    })
+  }
+
+  async function reset(scope: QuotaScope, platform: string, id: string, clearBonus = false) {
+    const key = quotaId(scope, platform, id)
+    return exclusive([key], async () => {
+      const record = await load(key, scope)
+      record.daily = 0
+      record.monthly = 0
+      if (clearBonus) record.bonus = 0
+      await ctx.database.upsert('yunwu_quota', [record])
+      return toBalance(record)
+    })
+  }
+
+  return { balance, consume, refund, grant, reset }
+}
+
+export type Quota = ReturnType<typeof createQuota>
+
+export function formatBalance(session: Session, balance: QuotaBalance) {
+  const limit = (used: number, max: number) => max > 0
+    ? session.text('yunwu-figurine.quota.limit', [used, max])
+    : session.text('yunwu-figurine.quota.limit', [used, session.text('yunwu-figurine.quota.unlimited')])
+  const lines = [
+    session.text('yunwu-figurine.quota.daily', [limit(balance.daily, balance.dailyLimit)]),
+    session.text('yunwu-figurine.quota.monthly', [limit(balance.monthly, balance.monthlyLimit)]),
+  ]
+  if (balance.bonus) lines.push(session.text('yunwu-figurine.quota.bonus', [balance.bonus]))
+  const remaining = balance.remaining === Infinity ? session.text('yunwu-figurine.quota.unlimited') : balance.remaining
+  lines.push(session.text('yunwu-figurine.quota.remaining', [remaining]))
+  return lines.join('\n')
+}
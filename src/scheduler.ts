@@ -0,0 +1,190 @@
+export type JobStage = 'downloading' | 'queued' | 'generating' | 'sending'
+
+export interface Job {
+  id: string
+  userId: string
+  guildId?: string
+  label: string
+  stage: JobStage
+  createdAt: number
+  controller: AbortController
+}
+
+export interface SchedulerOptions {
+  maxConcurrency: number        // 全局并发上限，0 表示不限
+  maxGuildConcurrency: number   // 单个群组并发上限，0 表示不限
+}
+
+interface Waiter {
+  job: Job
+  resolve: () => void
+  reject: (reason: unknown) => void
+}
+
+export class JobCancelledError extends Error {
+  constructor(message = '任务已取消') {
+    super(message)
+    this.name = 'JobCancelledError'
+  }
+}
+
+export class JobTimeoutError extends Error {
+  constructor(message = '命令执行超时') {
+    super(message)
+    this.name = 'JobTimeoutError'
+  }
+}
+
+// 可被 AbortSignal 中断的等待
+export function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason)
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal!.reason)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// 等待 promise 完成，signal 中止时立即放弃等待
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal) {
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason)
+    const onAbort = () => reject(signal!.reason)
+    signal?.addEventListener('abort', onAbort, { once: true })
+    promise.then(resolve, reject).finally(() => signal?.removeEventListener('abort', onAbort))
+  })
+}
+
+// 全局任务调度：每个用户同时只有一个任务，全局与群组并发受限，超出部分按 FIFO 排队
+export function createScheduler(options: SchedulerOptions) {
+  const jobs = new Map<string, Job>()   // userId -> job
+  const running = new Set<Job>()
+  const queue: Waiter[] = []
+  let counter = 0
+
+  function guildRunning(guildId?: string) {
+    if (!guildId) return 0
+    let count = 0
+    for (const job of running) {
+      if (job.guildId === guildId) count++
+    }
+    return count
+  }
+
+  function canRun(job: Job) {
+    if (options.maxConcurrency > 0 && running.size >= options.maxConcurrency) return false
+    if (options.maxGuildConcurrency > 0 && guildRunning(job.guildId) >= options.maxGuildConcurrency) return false
+    return true
+  }
+
+  // 按队列顺序启动所有当前可运行的任务
+  function drain() {
+    for (let i = 0; i < queue.length;) {
+      const waiter = queue[i]
+      if (!canRun(waiter.job)) {
+        i++
+        continue
+      }
+      queue.splice(i, 1)
+      running.add(waiter.job)
+      waiter.resolve()
+    }
+  }
+
+  function create(userId: string, guildId: string | undefined, label: string): Job | null {
+    if (jobs.has(userId)) return null
+    const job: Job = {
+      id: `${Date.now().toString(36)}-${(++counter).toString(36)}`,
+      userId,
+      guildId,
+      label,
+      stage: 'downloading',
+      createdAt: Date.now(),
+      controller: new AbortController()
+    }
+    jobs.set(userId, job)
+    return job
+  }
+
+  // 获取执行槽位，需要排队时先调用 onQueued 通知排队位置
+  async function acquire(job: Job, onQueued?: (position: number) => Promise<unknown>) {
+    job.controller.signal.throwIfAborted()
+    if (!queue.length && canRun(job)) {
+      running.add(job)
+      return
+    }
+
+    job.stage = 'queued'
+    const promise = new Promise<void>((resolve, reject) => {
+      queue.push({ job, resolve, reject })
+    })
+
+    const signal = job.controller.signal
+    const onAbort = () => {
+      const index = queue.findIndex(waiter => waiter.job === job)
+      if (index >= 0) queue.splice(index, 1)[0].reject(signal.reason)
+    }
+    signal.addEventListener('abort', onAbort, { once: true })
+
+    // 通知发送失败不影响排队
+    onQueued?.(position(job)).catch(() => {})
+    try {
+      await promise
+    } finally {
+      signal.removeEventListener('abort', onAbort)
+    }
+  }
+
+  function release(job: Job) {
+    if (jobs.get(job.userId) === job) jobs.delete(job.userId)
+    const index = queue.findIndex(waiter => waiter.job === job)
+    if (index >= 0) queue.splice(index, 1)
+    if (running.delete(job)) drain()
+  }
+
+  // 把执行槽位交给另一个任务，用于共享生成的发起任务离开后由等待的任务接手
+  function transfer(from: Job, to: Job) {
+    if (!running.delete(from)) return
+    running.add(to)
+  }
+
+  // 排队位置（从 1 开始），不在队列中时返回 0
+  function position(job: Job) {
+    return queue.findIndex(waiter => waiter.job === job) + 1
+  }
+
+  function cancel(userId: string, reason: Error = new JobCancelledError()) {
+    const job = jobs.get(userId)
+    if (!job) return false
+    job.controller.abort(reason)
+    return true
+  }
+
+  function dispose() {
+    for (const job of jobs.values()) {
+      job.controller.abort(new JobCancelledError('插件已停用'))
+    }
+  }
+
+  return {
+    get: (userId: string) => jobs.get(userId),
+    has: (userId: string) => jobs.has(userId),
+    get running() { return running.size },
+    get queued() { return queue.length },
+    create,
+    acquire,
+    release,
+    transfer,
+    position,
+    cancel,
+    dispose,
+  }
+}
+
+export type Scheduler = ReturnType<typeof createScheduler>
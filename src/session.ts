@@ -0,0 +1,8 @@
+import { Session } from 'koishi'
+
+// 任务流程与权限、额度检查用到的会话成员：聊天会话直接满足，HTTP 接口的会话只实现这些成员
+// 没有机器人的会话不会转入后台，也不会主动发送消息
+export interface TaskSession extends Pick<Session, 'platform' | 'userId' | 'username' | 'locales' | 'text' | 'send'>,
+  Partial<Pick<Session, 'guildId' | 'channelId' | 'selfId' | 'messageId' | 'bot' | 'user' | 'channel' | 'guild'>> {
+  getUser(userId?: string, fields?: 'authority'[]): Promise<{ authority?: number } | undefined>
+}
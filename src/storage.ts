@@ -0,0 +1,67 @@
+import { Context, Logger } from 'koishi'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { createHash } from 'crypto'
+import { resolve } from 'path'
+import type {} from '@koishijs/assets'
+import { Config } from './config'
+import { InputImage } from './providers'
+
+export const extensions: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+}
+
+// 把 data URL 或远程 URL 解析为二进制
+export async function fetchImage(ctx: Context, url: string, timeout: number): Promise<InputImage> {
+  const capture = /^data:([\w/.+-]+);base64,(.*)$/.exec(url)
+  if (capture) {
+    return { mimeType: capture[1], data: capture[2] }
+  }
+  const file = await ctx.http.file(url, { timeout })
+  return {
+    mimeType: file.type?.split(';')[0] || 'image/png',
+    data: Buffer.from(file.data).toString('base64')
+  }
+}
+
+// 图片存储：local 保存到数据目录，引用形如 local:<文件名>；assets 上传到资源服务，引用为返回的 URL
+export function createStorage(ctx: Context, config: Config, logger: Logger) {
+  const root = resolve(ctx.baseDir, config.storagePath)
+
+  function useAssets() {
+    if (config.storageBackend !== 'assets') return false
+    if (ctx.assets) return true
+    logger.warn('未找到 assets 服务，改用本地存储')
+    return false
+  }
+
+  async function save(image: InputImage): Promise<string> {
+    const buffer = Buffer.from(image.data, 'base64')
+    const hash = createHash('sha256').update(buffer).digest('hex').slice(0, 32)
+    const filename = `${hash}.${extensions[image.mimeType] || 'png'}`
+
+    if (useAssets()) {
+      return ctx.assets.upload(`data:${image.mimeType};base64,${image.data}`, filename)
+    }
+
+    await mkdir(root, { recursive: true })
+    await writeFile(resolve(root, filename), buffer)
+    return `local:${filename}`
+  }
+
+  async function read(ref: string): Promise<InputImage> {
+    if (!ref.startsWith('local:')) return fetchImage(ctx, ref, config.apiTimeout * 1000)
+
+    const filename = ref.slice(6)
+    const ext = filename.split('.').pop()!
+    const mimeType = Object.keys(extensions).find(type => extensions[type] === ext) || 'image/png'
+    const buffer = await readFile(resolve(root, filename))
+    return { mimeType, data: buffer.toString('base64') }
+  }
+
+  return { save, read }
+}
+
+export type Storage = ReturnType<typeof createStorage>
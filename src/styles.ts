@@ -0,0 +1,184 @@
+import { Context, Logger } from 'koishi'
+import yaml from 'js-yaml'
+import { Config, StyleConfig } from './config'
+
+declare module 'koishi' {
+  interface Tables {
+    yunwu_style: YunwuStyle
+    yunwu_meta: YunwuMeta
+  }
+}
+
+export interface YunwuStyle {
+  name: string          // 命令名称
+  data: StyleConfig
+  updatedAt: Date
+}
+
+// 插件的状态标记，如配置中的风格是否已经导入
+export interface YunwuMeta {
+  key: string
+  value: string
+}
+
+export type StyleFormat = 'json' | 'yaml'
+
+// 导入内容不符合要求，key 与 params 对应本地化文本 yunwu-figurine.style.*
+export class StyleImportError extends Error {
+  constructor(public key: string, public params: (string | number)[] = []) {
+    super(key)
+    this.name = 'StyleImportError'
+  }
+}
+
+// 按语言的回退顺序选用风格的翻译，空字符串代表风格本身的描述与 prompt
+export function localizeStyle(style: StyleConfig, locales: string[]): StyleConfig {
+  for (const locale of locales) {
+    if (!locale) return style
+    const translation = style.translations?.find(item => item.locale === locale)
+    if (!translation) continue
+    return {
+      ...style,
+      commandDescription: translation.description || style.commandDescription,
+      prompt: translation.prompt || style.prompt,
+    }
+  }
+  return style
+}
+
+// 风格存储：保存在数据库中，首次启动时从配置项 styles 导入；增删改后即时注册或注销对应命令
+// register 注册命令并返回注销函数
+export function createStyleStore(ctx: Context, config: Config, logger: Logger, register: (style: StyleConfig) => () => void) {
+  ctx.model.extend('yunwu_style', {
+    name: 'string',
+    data: 'json',
+    updatedAt: 'timestamp',
+  }, {
+    primary: 'name',
+  })
+
+  ctx.model.extend('yunwu_meta', {
+    key: 'string',
+    value: 'string',
+  }, {
+    primary: 'key',
+  })
+
+  const styles = new Map<string, StyleConfig>()
+  const commands = new Map<string, () => void>()
+
+  function unmount(name: string) {
+    commands.get(name)?.()
+    commands.delete(name)
+    styles.delete(name)
+  }
+
+  function mount(style: StyleConfig) {
+    unmount(style.commandName)
+    styles.set(style.commandName, style)
+    if (style.enabled && style.prompt) {
+      commands.set(style.commandName, register(style))
+      logger.info(`已注册命令: ${style.commandName}`)
+    }
+  }
+
+  // 配置中的风格只导入一次，之后删除全部风格也不会重新导入；升级前已有风格的数据库直接记为已导入
+  async function load() {
+    let rows = await ctx.database.get('yunwu_style', {})
+    const [imported] = await ctx.database.get('yunwu_meta', { key: 'styles-imported' })
+    if (!imported) {
+      if (!rows.length && config.styles?.length) {
+        logger.info('从配置导入风格', { count: config.styles.length })
+        await ctx.database.upsert('yunwu_style', config.styles.map(style => ({
+          name: style.commandName,
+          data: style,
+          updatedAt: new Date(),
+        })))
+        rows = await ctx.database.get('yunwu_style', {})
+      }
+      await ctx.database.upsert('yunwu_meta', [{ key: 'styles-imported', value: new Date().toISOString() }])
+    }
+    for (const row of rows) {
+      mount({ ...row.data, commandName: row.name })
+    }
+  }
+
+  // 命令名是否已被其他插件或内置命令占用
+  function isTaken(name: string) {
+    return !styles.has(name) && !!ctx.$commander.get(name)
+  }
+
+  async function save(style: StyleConfig) {
+    await ctx.database.upsert('yunwu_style', [{ name: style.commandName, data: style, updatedAt: new Date() }])
+    mount(style)
+  }
+
+  async function remove(name: string) {
+    await ctx.database.remove('yunwu_style', { name })
+    unmount(name)
+  }
+
+  async function rename(from: string, to: string) {
+    const style = styles.get(from)
+    if (!style) return
+    await ctx.database.remove('yunwu_style', { name: from })
+    unmount(from)
+    await save({ ...style, commandName: to })
+  }
+
+  function serialize(format: StyleFormat) {
+    const list = [...styles.values()]
+    return format === 'yaml' ? yaml.dump(list, { lineWidth: -1 }) : JSON.stringify(list, null, 2)
+  }
+
+  // 解析导入内容，按配置项的格式校验每个风格并去除未知字段
+  function parse(content: string): StyleConfig[] | StyleImportError {
+    let data: unknown
+    try {
+      data = /^\s*[[{]/.test(content) ? JSON.parse(content) : yaml.load(content)
+    } catch {
+      return new StyleImportError('invalid-format')
+    }
+    const list = Array.isArray(data) ? data : [data]
+    const result: StyleConfig[] = []
+    for (const [index, item] of list.entries()) {
+      if (!item?.commandName || !item?.prompt) {
+        return new StyleImportError('missing-fields')
+      }
+      const fields = Object.fromEntries(Object.entries(item).filter(([key]) => key in StyleConfig.dict!))
+      try {
+        result.push(StyleConfig({ commandDescription: '', ...fields } as StyleConfig))
+      } catch (error) {
+        return new StyleImportError('invalid-item', [index + 1, String(item.commandName), (error as Error).message])
+      }
+    }
+    return result
+  }
+
+  // 导入风格，replace 为 true 时先删除现有的全部风格
+  async function importStyles(list: StyleConfig[], replace: boolean) {
+    if (replace) {
+      for (const name of [...styles.keys()]) {
+        await remove(name)
+      }
+    }
+    for (const style of list) {
+      await save(style)
+    }
+  }
+
+  return {
+    get: (name: string) => styles.get(name),
+    list: () => [...styles.values()],
+    load,
+    isTaken,
+    save,
+    remove,
+    rename,
+    serialize,
+    parse,
+    importStyles,
+  }
+}
+
+export type StyleStore = ReturnType<typeof createStyleStore>
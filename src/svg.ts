@@ -0,0 +1,19 @@
+// 中文文字需要系统中安装其中一种字体
+const fontFamily = `'Noto Sans CJK SC', 'Source Han Sans SC', 'Microsoft YaHei', 'PingFang SC', sans-serif`
+
+export function escapeXml(text: string) {
+  return text.replace(/[<>&'"]/g, char => `&#${char.charCodeAt(0)};`)
+}
+
+// 一行文字，attrs 为位置、字号、颜色等属性
+export function svgText(text: string, attrs: Record<string, string | number>) {
+  const rendered = Object.entries(attrs).map(([key, value]) => `${key}="${value}"`).join(' ')
+  return `<text ${rendered} font-family="${fontFamily}">${escapeXml(text)}</text>`
+}
+
+// 组合为 SVG 图片，可直接作为 sharp 的输入或叠加图层
+export function renderSvg(width: number, height: number, elements: string[]) {
+  return Buffer.from(`<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
+  ${elements.join('\n  ')}
+</svg>`)
+}
@@ -0,0 +1,77 @@
+import { Session } from 'koishi'
+import { StyleConfig, StyleParam } from './config'
+
+// 模板参数不合法，key 与 params 对应本地化文本 yunwu-figurine.template.*
+export class TemplateError extends Error {
+  constructor(public key: string, public params: (string | number)[] = []) {
+    super(key)
+    this.name = 'TemplateError'
+  }
+}
+
+export interface TemplateContext {
+  args: string[]                    // 图片后的文字，按空格拆分后依次填入参数
+  options: Record<string, any>      // 通过 --参数名 指定的值
+  nickname: string                  // 调用者昵称
+}
+
+const placeholderPattern = /\{([^{}]+)\}/g
+
+// 命令自带的选项名，参数不能与之重名
+export const reservedParams = ['num', 'n', 'ratio', 'r', 'size', 'seed', 'temperature', 'fresh']
+
+function pick<T>(list: T[]) {
+  return list[Math.floor(Math.random() * list.length)]
+}
+
+// 解析每个参数的取值：--参数名 优先，其次按顺序取图片后的文字，再次为默认值，最后按需随机选取
+function resolveParams(params: StyleParam[], context: TemplateContext) {
+  const args = [...context.args]
+  const values: Record<string, string> = {}
+
+  for (const param of params) {
+    const option = context.options[param.name]
+    let value = option !== undefined && option !== null ? String(option) : undefined
+    if (value === undefined && args.length) value = args.shift()
+
+    if (value !== undefined && param.choices?.length && !param.choices.includes(value)) {
+      throw new TemplateError('invalid-choice', [param.name, param.choices.join('/')])
+    }
+
+    if (value === undefined) value = param.default
+    if (value === undefined && param.random && param.choices?.length) value = pick(param.choices)
+    values[param.name] = value ?? ''
+  }
+
+  return { values, rest: args.join(' ') }
+}
+
+// 渲染风格 prompt：{参数名} 为参数，{nickname} 为调用者昵称，{text} 为未被参数使用的文字，{甲|乙|丙} 为随机选取
+export function renderPrompt(style: StyleConfig, context: TemplateContext) {
+  const { values, rest } = resolveParams(style.params || [], context)
+  const builtins: Record<string, string> = {
+    nickname: context.nickname,
+    text: rest,
+  }
+
+  return style.prompt.replace(placeholderPattern, (match, key: string) => {
+    const name = key.trim()
+    if (name in values) return values[name]
+    if (name in builtins) return builtins[name]
+    if (name.includes('|')) return pick(name.split('|')).trim()
+    return match
+  })
+}
+
+// 生成命令帮助中的参数说明
+export function describeParams(session: Session, params: StyleParam[]) {
+  if (!params.length) return ''
+  const lines = params.map(param => {
+    const parts = [param.description || param.name]
+    if (param.choices?.length) parts.push(session.text('yunwu-figurine.params.choices', [param.choices.join('/')]))
+    if (param.default) parts.push(session.text('yunwu-figurine.params.default', [param.default]))
+    else if (param.random && param.choices?.length) parts.push(session.text('yunwu-figurine.params.random'))
+    return `    ${param.name}  ${parts.join(session.text('yunwu-figurine.comma'))}`
+  })
+  return [session.text('yunwu-figurine.params.header'), ...lines].join('\n')
+}
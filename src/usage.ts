@@ -0,0 +1,162 @@
+import { Context } from 'koishi'
+import { Config, ModelPrice } from './config'
+import { dayOf } from './dates'
+import { CallRecord } from './providers'
+
+declare module 'koishi' {
+  interface Tables {
+    yunwu_usage: YunwuUsage
+  }
+}
+
+// 每次调用提供方的用量记录
+export interface YunwuUsage {
+  id: number
+  platform: string
+  userId: string
+  guildId: string
+  style: string         // 风格命令名，自定义 prompt 时为任务名称
+  provider: string
+  model: string
+  outcome: string       // success / refused / 错误类型
+  images: number
+  inputTokens: number
+  outputTokens: number
+  duration: number      // 毫秒
+  createdAt: Date
+}
+
+// 发起调用的用户与风格
+export interface UsageCaller {
+  platform: string
+  userId: string
+  guildId: string
+  style: string
+}
+
+export type UsageDimension = 'day' | 'user' | 'guild' | 'style' | 'model'
+
+export interface UsageSummary {
+  key: string
+  calls: number
+  failed: number        // 请求出错的次数
+  refused: number       // 没有返回图片的次数
+  images: number
+  inputTokens: number
+  outputTokens: number
+  cost: number
+}
+
+// CSV 字段中包含逗号、引号或换行时用引号包裹
+function escapeCsv(value: string | number) {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function createUsage(ctx: Context, config: Config) {
+  ctx.model.extend('yunwu_usage', {
+    id: 'unsigned',
+    platform: 'string',
+    userId: 'string',
+    guildId: 'string',
+    style: 'string',
+    provider: 'string',
+    model: 'string',
+    outcome: 'string',
+    images: 'unsigned',
+    inputTokens: 'unsigned',
+    outputTokens: 'unsigned',
+    duration: 'unsigned',
+    createdAt: 'timestamp',
+  }, {
+    autoInc: true,
+  })
+
+  async function record(caller: UsageCaller, call: CallRecord) {
+    return ctx.database.create('yunwu_usage', {
+      ...caller,
+      provider: call.provider,
+      model: call.model,
+      outcome: call.outcome,
+      images: call.images,
+      inputTokens: call.usage?.inputTokens || 0,
+      outputTokens: call.usage?.outputTokens || 0,
+      duration: call.duration,
+      createdAt: new Date(),
+    })
+  }
+
+  async function list(since: Date) {
+    return ctx.database
+      .select('yunwu_usage')
+      .where({ createdAt: { $gte: since } })
+      .orderBy('id', 'asc')
+      .execute()
+  }
+
+  // 按模型单价估算费用，未配置单价的模型记为 0
+  function costOf(row: YunwuUsage) {
+    const price: ModelPrice | undefined = config.modelPrices.find(item => item.model === row.model)
+    if (!price) return 0
+    return row.inputTokens / 1e6 * (price.inputPrice || 0)
+      + row.outputTokens / 1e6 * (price.outputPrice || 0)
+      + row.images * (price.imagePrice || 0)
+  }
+
+  // 私聊与未知风格的键为空，由调用方显示对应的文字
+  function keyOf(row: YunwuUsage, dimension: UsageDimension) {
+    switch (dimension) {
+      case 'day': return dayOf(row.createdAt)
+      case 'user': return `${row.platform}:${row.userId}`
+      case 'guild': return row.guildId ? `${row.platform}:${row.guildId}` : ''
+      case 'style': return row.style
+      case 'model': return `${row.provider}:${row.model}`
+    }
+  }
+
+  function summarize(rows: YunwuUsage[], dimension?: UsageDimension): UsageSummary[] {
+    const groups = new Map<string, UsageSummary>()
+    for (const row of rows) {
+      const key = dimension ? keyOf(row, dimension) : ''
+      let summary = groups.get(key)
+      if (!summary) {
+        summary = { key, calls: 0, failed: 0, refused: 0, images: 0, inputTokens: 0, outputTokens: 0, cost: 0 }
+        groups.set(key, summary)
+      }
+      summary.calls++
+      if (row.outcome === 'refused') summary.refused++
+      else if (row.outcome !== 'success') summary.failed++
+      summary.images += row.images
+      summary.inputTokens += row.inputTokens
+      summary.outputTokens += row.outputTokens
+      summary.cost += costOf(row)
+    }
+    return [...groups.values()]
+  }
+
+  // 导出明细，开头的 BOM 便于表格软件识别 UTF-8
+  function toCsv(rows: YunwuUsage[]) {
+    const header = ['id', 'time', 'platform', 'userId', 'guildId', 'style', 'provider', 'model', 'outcome', 'images', 'inputTokens', 'outputTokens', 'duration', 'cost']
+    const lines = rows.map(row => [
+      row.id,
+      row.createdAt.toISOString(),
+      row.platform,
+      row.userId,
+      row.guildId,
+      row.style,
+      row.provider,
+      row.model,
+      row.outcome,
+      row.images,
+      row.inputTokens,
+      row.outputTokens,
+      row.duration,
+      costOf(row).toFixed(4),
+    ].map(escapeCsv).join(','))
+    return '\ufeff' + [header.join(','), ...lines].join('\r\n')
+  }
+
+  return { record, list, summarize, toCsv }
+}
+
+export type Usage = ReturnType<typeof createUsage>
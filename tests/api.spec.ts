@@ -0,0 +1,76 @@
+import { expect } from 'chai'
+import server from '@koishijs/plugin-server'
+import { createApp, image, sleep } from './shared'
+
+describe('HTTP 接口', () => {
+  const app = createApp({ apiEnabled: true, apiTokens: [{ name: 'tester', token: 'secret' }] })
+  app.plugin(server, { port: 15140, maxPort: 15199 })
+  let base: string
+
+  before(async () => {
+    await app.start()
+    base = `http://127.0.0.1:${app.server.port}/yunwu-figurine`
+  })
+
+  function request(path: string, init: RequestInit = {}, token = 'secret') {
+    return fetch(`${base}${path}`, {
+      ...init,
+      headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json', ...init.headers },
+    })
+  }
+
+  // 图片元素中的 data URL
+  async function dataUrl(color?: string) {
+    return (await image(color)).match(/src="([^"]+)"/)![1]
+  }
+
+  async function waitJob(id: string) {
+    for (let i = 0; i < 50; i++) {
+      const job = await (await request(`/jobs/${id}`)).json()
+      if (job.status !== 'running') return job
+      await sleep(50)
+    }
+    throw new Error('任务未完成')
+  }
+
+  it('拒绝无效的令牌', async () => {
+    const response = await request('/styles', {}, 'wrong')
+    expect(response.status).to.equal(401)
+    expect(await response.json()).to.deep.equal({ error: '令牌无效' })
+  })
+
+  it('列出可用的风格', async () => {
+    const styles = await (await request('/styles')).json()
+    expect(styles.map((style: any) => style.name)).to.include('变手办')
+  })
+
+  it('提交风格任务并下载结果', async () => {
+    const response = await request('/jobs', { method: 'POST', body: JSON.stringify({ style: '变手办', images: [await dataUrl()] }) })
+    expect(response.status).to.equal(202)
+    const job = await waitJob((await response.json()).id)
+    expect(job.status).to.equal('success')
+    expect(job.messages[0]).to.equal('开始处理（变手办）...')
+    expect(job.results).to.have.length(1)
+
+    const result = await request(job.results[0].replace('/yunwu-figurine', ''))
+    expect(result.status).to.equal(200)
+    expect(result.headers.get('content-type')).to.match(/^image\//)
+  })
+
+  it('按 Accept-Language 返回英文提示', async () => {
+    const response = await request('/jobs', { method: 'POST', body: JSON.stringify({}), headers: { 'Accept-Language': 'en-US' } })
+    expect(response.status).to.equal(400)
+    expect(await response.json()).to.deep.equal({ error: 'Please provide a style name or a prompt' })
+  })
+
+  it('拒绝内网图片链接', async () => {
+    const response = await request('/jobs', { method: 'POST', body: JSON.stringify({ prompt: '改成蓝色', images: ['http://127.0.0.1/a.png'] }) })
+    expect(response.status).to.equal(400)
+    expect((await response.json()).error).to.equal('不支持该图片链接，只能使用公网的 http(s) 地址：http://127.0.0.1/a.png')
+  })
+
+  it('查询不存在的任务', async () => {
+    const response = await request('/jobs/unknown')
+    expect(response.status).to.equal(404)
+  })
+})
@@ -0,0 +1,68 @@
+import { expect } from 'chai'
+import { App } from 'koishi'
+import { createServer, Server } from 'http'
+import { AddressInfo } from 'net'
+import { createApp, image } from './shared'
+
+describe('描述图片', () => {
+  let server: Server
+  let app: App
+  let reply = '一只橘猫'
+  const instructions: string[] = []
+
+  // 模拟 Gemini 文字模型，记录收到的系统指令
+  before(async () => {
+    server = createServer((req, res) => {
+      let body = ''
+      req.on('data', chunk => body += chunk)
+      req.on('end', () => {
+        instructions.push(JSON.parse(body).systemInstruction.parts[0].text)
+        res.setHeader('Content-Type', 'application/json')
+        res.end(JSON.stringify({ candidates: [{ content: { parts: reply ? [{ text: reply }] : [] }, finishReason: 'STOP' }] }))
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    app = createApp({
+      apiBaseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      quotaEnabled: true,
+      userDailyQuota: 2,
+    })
+    await app.start()
+    await app.mock.initUser('123', 1)
+    await app.mock.initUser('456', 1)
+    await app.database.setUser('mock', '456', { locales: ['en-US'] })
+  })
+
+  after(() => {
+    server.close()
+  })
+
+  async function remaining() {
+    const replies = await app.mock.client('123').receive('图像处理.额度')
+    return replies.join('\n').match(/剩余可用：(\d+)/)?.[1]
+  }
+
+  it('按会话语言选用系统指令并扣除额度', async () => {
+    await app.mock.client('123').shouldReply(`描述图片 ${await image()}`, '一只橘猫')
+    expect(instructions.pop()).to.contain('简体中文')
+    expect(await remaining()).to.equal('1')
+
+    reply = 'An orange cat'
+    await app.mock.client('456').shouldReply(`描述图片 ${await image()}`, 'An orange cat')
+    expect(instructions.pop()).to.contain('in English')
+  })
+
+  it('模型没有返回文字时退还额度', async () => {
+    reply = ''
+    await app.mock.client('123').shouldReply(`描述图片 ${await image()}`, '模型没有返回描述，请换一张图片重试')
+    expect(await remaining()).to.equal('1')
+  })
+
+  it('额度不足时不调用文字模型', async () => {
+    reply = '一只橘猫'
+    await app.mock.client('123').shouldReply(`描述图片 ${await image()}`, '一只橘猫')
+    const calls = instructions.length
+    await app.mock.client('123').shouldReply(`描述图片 ${await image()}`, '您的图像处理额度不足（剩余 0，本次需要 1）')
+    expect(instructions.length).to.equal(calls)
+  })
+})
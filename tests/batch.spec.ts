@@ -0,0 +1,50 @@
+import { expect } from 'chai'
+import { countImages, createApp, image } from './shared'
+
+describe('风格对比与批量处理', () => {
+  const app = createApp({ quotaEnabled: true, userDailyQuota: 5 })
+  const client = app.mock.client('123', '456')
+  const admin = app.mock.client('789')
+
+  before(async () => {
+    await app.start()
+    await app.mock.initUser('123', 1)
+    await app.mock.initUser('789', 3)
+  })
+
+  async function remaining() {
+    const replies = await client.receive('图像处理.额度')
+    return replies.join('\n').match(/剩余可用：(\d+)/)?.[1]
+  }
+
+  it('风格对比：多个风格处理同一张图片并拼成对比图', async () => {
+    const replies = await client.receive(`风格对比 -s 变手办,变真人 ${await image()}`)
+    expect(replies[0]).to.equal('开始风格对比（变手办、变真人）...')
+    expect(replies[replies.length - 1]).to.match(/^风格对比完成（成功 2\/2 张）<img /)
+    expect(await remaining()).to.equal('3')
+  })
+
+  it('风格对比：-f 同时发送原图', async () => {
+    const replies = await client.receive(`风格对比 -f -s 变手办,变真人 ${await image()}`)
+    expect(countImages(replies)).to.equal(3)
+    expect(await remaining()).to.equal('1')
+  })
+
+  it('风格对比：不支持的风格与数量不足', async () => {
+    await client.shouldReply(`风格对比 -s 变手办,不存在 ${await image()}`, '未找到风格：不存在')
+    await client.shouldReply(`风格对比 -s 变手办 ${await image()}`, '至少需要两个可用的风格')
+  })
+
+  it('批量处理：额度不足时拒绝', async () => {
+    await client.shouldReply(`批量处理 变手办 ${await image('#ff0000')} ${await image('#0000ff')}`, '您的图像处理额度不足（剩余 1，本次需要 2）')
+    expect(await remaining()).to.equal('1')
+  })
+
+  it('批量处理：一个风格处理多张图片', async () => {
+    await admin.receive('图像处理.额度.授予 -u <at id="123"/> 2')
+    const replies = await client.receive(`批量处理 变手办 ${await image('#ff0000')} ${await image('#0000ff')}`)
+    expect(replies[0]).to.equal('开始批量处理（变手办，2 张）...')
+    expect(replies[replies.length - 1]).to.match(/^批量处理完成（成功 2\/2 张）<img /)
+    expect(await remaining()).to.equal('1')
+  })
+})
@@ -0,0 +1,86 @@
+import { expect } from 'chai'
+import { createApp, image, sleep } from './shared'
+
+describe('取消与并发', () => {
+  const app = createApp({ mockLatency: 1, cacheEnabled: true })
+  // 同一用户的两个会话：一个提交任务，一个在任务进行中发送命令
+  const client = app.mock.client('123')
+  const another = app.mock.client('123')
+  const other = app.mock.client('456')
+
+  before(async () => {
+    await app.start()
+    await app.mock.initUser('123', 1)
+    await app.mock.initUser('456', 1)
+  })
+
+  it('没有任务时取消', async () => {
+    await client.shouldReply('图像处理.取消', '当前没有图像处理任务')
+  })
+
+  it('进行中的任务拒绝新的请求', async () => {
+    const running = client.receive(`变手办 ${await image()}`)
+    await sleep(200)
+    await another.shouldReply(`变手办 ${await image('#0000ff')}`, '您有一个图像处理任务正在进行中，请等待完成')
+    const replies = await running
+    expect(replies[replies.length - 1]).to.match(/^图像处理完成！<img /)
+  })
+
+  it('取消进行中的任务', async () => {
+    const running = client.receive(`生成图像 ${await image()} 改成蓝色`)
+    await sleep(200)
+    await another.shouldReply('图像处理.取消', '正在取消图像处理任务...')
+    const replies = await running
+    expect(replies[replies.length - 1]).to.equal('任务已取消')
+  })
+
+  it('相同请求的一方取消后另一方仍得到结果', async () => {
+    const input = await image('#00ff00')
+    const first = client.receive(`生成图像 ${input} 改成黄色`)
+    await sleep(100)
+    const second = other.receive(`生成图像 ${input} 改成黄色`)
+    await sleep(100)
+    await another.shouldReply('图像处理.取消', '正在取消图像处理任务...')
+    expect((await first).pop()).to.equal('任务已取消')
+    expect((await second).pop()).to.match(/^图像处理完成！<img /)
+  })
+})
+
+describe('共享生成的发起任务取消', () => {
+  const app = createApp({ mockLatency: 1, cacheEnabled: true, maxConcurrency: 1, quotaEnabled: true, userDailyQuota: 5 })
+  const originator = app.mock.client('123')
+  const canceller = app.mock.client('123')
+  const joiner = app.mock.client('456')
+  const third = app.mock.client('789')
+
+  before(async () => {
+    await app.start()
+    await app.mock.initUser('123', 1)
+    await app.mock.initUser('456', 1)
+    await app.mock.initUser('789', 1)
+  })
+
+  async function used(client: typeof originator) {
+    const replies = await client.receive('图像处理.额度')
+    return replies.join('\n').match(/今日已用：(\d+)/)?.[1]
+  }
+
+  it('等待的任务接手生成的执行槽位与额度', async () => {
+    const input = await image('#00ffff')
+    const first = originator.receive(`生成图像 ${input} 改成紫色`)
+    await sleep(100)
+    const second = joiner.receive(`生成图像 ${input} 改成紫色`)
+    await sleep(100)
+    await canceller.shouldReply('图像处理.取消', '正在取消图像处理任务...')
+    expect((await first).pop()).to.equal('任务已取消')
+
+    // 生成仍在进行，执行槽位由等待的任务占用，新的任务需要排队
+    const queued = await third.receive(`生成图像 ${await image('#ff00ff')} 改成橙色`)
+    expect(queued[1]).to.equal('当前排队中，前方还有 0 个任务')
+    expect(queued.pop()).to.match(/^图像处理完成！<img /)
+
+    expect((await second).pop()).to.match(/^图像处理完成！<img /)
+    expect(await used(originator)).to.equal('0')
+    expect(await used(joiner)).to.equal('1')
+  })
+})
@@ -0,0 +1,64 @@
+import { expect } from 'chai'
+import { h } from 'koishi'
+import { createApp, image } from './shared'
+
+describe('继续编辑', () => {
+  const app = createApp({ quotaEnabled: true, userDailyQuota: 10, conversationMaxTurns: 2 })
+  const client = app.mock.client('123', '456')
+  const other = app.mock.client('789', '456')
+  let counter = 0
+  let resultId = ''   // 最近一条包含图片的消息
+
+  before(async () => {
+    await app.start()
+    await app.mock.initUser('123', 1)
+    await app.mock.initUser('789', 1)
+    // 模拟适配器不返回消息ID，按发送顺序编号，用于回复机器人的结果消息
+    const bot = app.bots[0]
+    const sendMessage = bot.sendMessage.bind(bot)
+    bot.sendMessage = async (channelId, content, ...args) => {
+      await sendMessage(channelId, content, ...args)
+      const id = String(++counter)
+      if (h.select(h.normalize(content), 'img').length) resultId = id
+      return [id]
+    }
+  })
+
+  async function remaining() {
+    const replies = await client.receive('图像处理.额度')
+    return replies.join('\n').match(/剩余可用：(\d+)/)?.[1]
+  }
+
+  it('回复结果图片继续编辑', async () => {
+    const replies = await client.receive(`变手办 ${await image()}`)
+    expect(replies[replies.length - 1]).to.match(/^图像处理完成！<img /)
+    expect(await remaining()).to.equal('9')
+
+    const edited = await client.receive(`<quote id="${resultId}"/><at id="514"/> 改成蓝色`)
+    expect(edited[0]).to.equal('继续编辑（第 2 轮）...\nPrompt: 改成蓝色')
+    expect(edited[1]).to.match(/^图像处理完成！<img /)
+    expect(await remaining()).to.equal('8')
+  })
+
+  it('群聊中普通的回复不继续编辑，也不扣除额度', async () => {
+    await client.shouldNotReply(`<quote id="${resultId}"/>哈哈`)
+    expect(await remaining()).to.equal('8')
+  })
+
+  it('超过最大轮数时提示重新开始', async () => {
+    await client.shouldReply(`<quote id="${resultId}"/><at id="514"/> 再加个帽子`, '该图片已连续编辑 2 轮，请使用风格命令或「生成图像」重新开始')
+    expect(await remaining()).to.equal('8')
+  })
+
+  it('其他用户回复时不继续编辑', async () => {
+    await client.receive(`变手办 ${await image()}`)
+    await other.shouldNotReply(`<quote id="${resultId}"/><at id="514"/> 改成蓝色`)
+  })
+
+  it('私聊中直接回复继续编辑', async () => {
+    const direct = app.mock.client('123')
+    await direct.receive(`变手办 ${await image()}`)
+    const edited = await direct.receive(`<quote id="${resultId}"/>改成蓝色`)
+    expect(edited[0]).to.equal('继续编辑（第 2 轮）...\nPrompt: 改成蓝色')
+  })
+})
@@ -0,0 +1,64 @@
+import { expect } from 'chai'
+import { countImages, createApp, image } from './shared'
+
+describe('生成图像、合并与文生图', () => {
+  const app = createApp()
+  const client = app.mock.client('123', '456')
+
+  before(async () => {
+    await app.start()
+    await app.mock.initUser('123', 1)
+  })
+
+  it('生成图像：按自定义 prompt 处理图片', async () => {
+    const replies = await client.receive(`生成图像 ${await image()} 改成油画风格`)
+    expect(replies[0]).to.equal('开始处理图片（自定义prompt）...\nPrompt: 改成油画风格')
+    expect(replies[1]).to.match(/^图像处理完成！<img /)
+  })
+
+  it('生成图像：按 -n 生成多张图片', async () => {
+    const replies = await client.receive(`生成图像 -n 3 ${await image()} 改成油画风格`)
+    expect(countImages(replies)).to.equal(3)
+  })
+
+  it('生成图像：引用消息只提供图片，文字不并入 prompt', async () => {
+    const replies = await client.receive(`<quote>看这张图 ${await image()}</quote>生成图像 加个帽子`)
+    expect(replies[0]).to.equal('开始处理图片（自定义prompt）...\nPrompt: 加个帽子')
+    expect(replies[1]).to.match(/^图像处理完成！<img /)
+  })
+
+  it('生成图像：忽略指向本机或内网的图片链接', async () => {
+    const [notice, reply] = await client.receive('生成图像 http://127.0.0.1:5140/a.png 改成油画风格', 2)
+    expect(notice).to.equal('已忽略指向本机或内网地址的图片链接')
+    expect(reply).to.match(/^请发送图片和prompt/)
+    await client.shouldReply('改成油画风格', '未检测到图片，请重试')
+  })
+
+  it('生成图像：拒绝超出范围的数量', async () => {
+    await client.shouldReply(`生成图像 -n 5 ${await image()} 改成油画风格`, '生成数量必须在 1-4 之间')
+  })
+
+  it('合并：合并多张图片', async () => {
+    const replies = await client.receive(`合并 ${await image('#ff0000')} ${await image('#0000ff')} 把两张图片拼在一起`)
+    expect(replies[0]).to.equal('开始合并图片（2张）...\nPrompt: 把两张图片拼在一起')
+    expect(replies[1]).to.match(/^图片合并完成！<img /)
+  })
+
+  it('合并：图片不足时提示', async () => {
+    const [intro] = await client.receive(`合并 ${await image()} 把两张图片拼在一起`, 1)
+    expect(intro).to.match(/^请发送多张图片和prompt/)
+    await client.shouldReply('只有这些', '需要至少 2 张图片，当前只有 1 张图片')
+  })
+
+  it('合并：引用消息中的图片只计算一次', async () => {
+    const [intro] = await client.receive(`<quote>看这张图 ${await image()}</quote>合并 把两张图片拼在一起`, 1)
+    expect(intro).to.match(/^请发送多张图片和prompt/)
+    await client.shouldReply('只有这些', '需要至少 2 张图片，当前只有 1 张图片')
+  })
+
+  it('文生图：只按文字生成', async () => {
+    const replies = await client.receive('文生图 一只在月球上喝咖啡的橘猫')
+    expect(replies[0]).to.equal('开始生成图片...\nPrompt: 一只在月球上喝咖啡的橘猫')
+    expect(replies[1]).to.match(/^图像生成完成！<img /)
+  })
+})
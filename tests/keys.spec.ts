@@ -0,0 +1,85 @@
+import { expect } from 'chai'
+import { Config } from '../src/config'
+import { createKeyPool } from '../src/keys'
+import { CallRecord, createCircuitBreaker, editWithFallback, ImageProvider, ProviderError, ProviderRegistry } from '../src/providers'
+import { logger } from './shared'
+
+// 不支持批量生成的提供方，每次调用返回一张图片并记录使用的密钥
+function createProvider(fail?: (apiKey: string) => ProviderError | undefined) {
+  const calls: string[] = []
+  const provider: ImageProvider = {
+    name: 'gemini',
+    defaultModel: 'test-model',
+    supportsBatch: false,
+    supportsHistory: false,
+    support: () => ({ aspectRatios: [], imageSizes: [], seed: false, temperature: false }),
+    async edit(request) {
+      calls.push(request.apiKey)
+      const error = fail?.(request.apiKey)
+      if (error) throw error
+      return { images: ['data:image/png;base64,AAAA'] }
+    },
+  }
+  return { provider, calls }
+}
+
+function setup(apiKeys: Config['apiKeys'], provider: ImageProvider, onCall?: (record: CallRecord) => void) {
+  const config = { apiKey: '', apiKeys, keyStrategy: 'round-robin', keyCooldown: 10 } as Config
+  const keys = createKeyPool(config, logger)
+  const options = {
+    retry: { maxRetries: 0, baseDelay: 0, maxDelay: 0 },
+    breaker: createCircuitBreaker({ threshold: 0, cooldown: 0 }, logger),
+    keys,
+    onCall,
+  }
+  const edit = (numImages: number) => editWithFallback(
+    { gemini: provider } as ProviderRegistry,
+    [{ provider: 'gemini' }],
+    { prompt: 'test', images: [], numImages },
+    logger,
+    options,
+  )
+  return { keys, edit }
+}
+
+describe('密钥池计数', () => {
+  it('并发请求的每次调用分别取用密钥', async () => {
+    const { provider, calls } = createProvider()
+    const { keys, edit } = setup([{ key: 'key-a' }, { key: 'key-b' }], provider)
+    const result = await edit(4)
+    expect(result.images).to.have.length(4)
+    expect(calls).to.deep.equal(['key-a', 'key-b', 'key-a', 'key-b'])
+    expect(keys.status().map(item => [item.used, item.success])).to.deep.equal([[2, 2], [2, 2]])
+  })
+
+  it('达到每日上限的密钥不再用于并发请求', async () => {
+    const { provider, calls } = createProvider()
+    const { keys, edit } = setup([{ key: 'key-a', dailyCap: 1 }, { key: 'key-b', dailyCap: 2 }], provider)
+    const result = await edit(4)
+    expect(calls).to.deep.equal(['key-a', 'key-b', 'key-b'])
+    expect(result.images).to.have.length(3)
+    expect(keys.status().map(item => item.used)).to.deep.equal([1, 2])
+  })
+
+  it('分别记录每次调用的失败', async () => {
+    const { provider } = createProvider(key => key === 'key-b' ? new ProviderError('quota', 429) : undefined)
+    const { keys, edit } = setup([{ key: 'key-a' }, { key: 'key-b' }], provider)
+    const result = await edit(2)
+    expect(result.images).to.have.length(1)
+    const [a, b] = keys.status()
+    expect([a.success, a.failed, b.success, b.failed]).to.deep.equal([1, 0, 0, 1])
+    expect(b.disabledFor).to.be.greaterThan(0)
+  })
+})
+
+describe('并发请求的用量记录', () => {
+  it('每次调用分别记录', async () => {
+    const records: CallRecord[] = []
+    const { provider } = createProvider(key => key === 'key-b' ? new ProviderError('upstream', 500) : undefined)
+    const { edit } = setup([{ key: 'key-a' }, { key: 'key-b' }], provider, record => records.push(record))
+    await edit(4)
+    expect(records.map(record => [record.outcome, record.images])).to.have.deep.members([
+      ['success', 1], ['success', 1], ['upstream', 0], ['upstream', 0],
+    ])
+  })
+})
@@ -0,0 +1,38 @@
+import { expect } from 'chai'
+import { createServer, Server } from 'http'
+import { AddressInfo } from 'net'
+import { fetchPublic, isPublicUrl, PrivateAddressError } from '../src/network'
+
+describe('公网地址检查', () => {
+  let server: Server
+  let port: number
+  let requests = 0
+
+  before(async () => {
+    server = createServer((req, res) => {
+      requests++
+      res.end('ok')
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    port = (server.address() as AddressInfo).port
+  })
+
+  after(() => {
+    server.close()
+  })
+
+  it('拒绝本机、内网与映射的 IPv4 地址', async () => {
+    for (const url of ['http://127.0.0.1/a.png', 'http://10.0.0.1/a.png', 'http://[::1]/a.png', 'http://[::ffff:192.168.1.1]/a.png', 'http://localhost/a.png', 'file:///etc/passwd']) {
+      expect(await isPublicUrl(url), url).to.equal(false)
+    }
+    expect(await isPublicUrl('data:image/png;base64,AAAA')).to.equal(true)
+  })
+
+  it('下载时按实际连接的地址拒绝', async () => {
+    for (const host of ['127.0.0.1', 'localhost']) {
+      const error = await fetchPublic(`http://${host}:${port}/a.png`, { timeout: 5000 }).catch(error => error)
+      expect(error, host).to.be.instanceOf(PrivateAddressError)
+    }
+    expect(requests).to.equal(0)
+  })
+})
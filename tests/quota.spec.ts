@@ -0,0 +1,51 @@
+import { expect } from 'chai'
+import { createApp, image } from './shared'
+
+describe('额度', () => {
+  const app = createApp({ quotaEnabled: true, userDailyQuota: 2 })
+  const client = app.mock.client('123')
+  const admin = app.mock.client('789')
+
+  before(async () => {
+    await app.start()
+    await app.mock.initUser('123', 1)
+    await app.mock.initUser('789', 3)
+  })
+
+  async function remaining() {
+    const replies = await client.receive('图像处理.额度')
+    return replies.join('\n').match(/剩余可用：(\d+)/)?.[1]
+  }
+
+  it('查询初始额度', async () => {
+    expect(await remaining()).to.equal('2')
+  })
+
+  it('成功生成后扣除额度', async () => {
+    const replies = await client.receive(`变手办 ${await image()}`)
+    expect(replies[replies.length - 1]).to.match(/^图像处理完成！<img /)
+    expect(await remaining()).to.equal('1')
+  })
+
+  it('生成失败时退还额度', async () => {
+    const replies = await client.receive(`生成图像 ${await image()} [mock:safety] 改成红色`)
+    expect(replies[replies.length - 1]).to.equal('图像处理失败：生成内容未通过安全审核，请调整提示词或更换图片')
+    expect(await remaining()).to.equal('1')
+  })
+
+  it('额度不足时拒绝', async () => {
+    await client.shouldReply(`变手办 -n 2 ${await image()}`, '您的图像处理额度不足（剩余 1，本次需要 2）')
+    expect(await remaining()).to.equal('1')
+  })
+
+  it('普通用户不能授予额度', async () => {
+    await client.shouldReply('图像处理.额度.授予 -u <at id="123"/> 5', '权限不足。')
+    expect(await remaining()).to.equal('1')
+  })
+
+  it('管理员授予额外额度', async () => {
+    const replies = await admin.receive('图像处理.额度.授予 -u <at id="123"/> 5')
+    expect(replies.join('\n')).to.contain('已为用户 123调整额外额度 5')
+    expect(await remaining()).to.equal('6')
+  })
+})
@@ -0,0 +1,48 @@
+import { expect } from 'chai'
+import { createApp, image } from './shared'
+
+// prompt 中的 [mock:场景] 让模拟提供方返回对应的拒绝或错误
+describe('生成被拒绝与提供方错误', () => {
+  const app = createApp()
+  const client = app.mock.client('123', '456')
+
+  before(async () => {
+    await app.start()
+    await app.mock.initUser('123', 1)
+  })
+
+  async function lastReply(content: string) {
+    const replies = await client.receive(content)
+    return replies[replies.length - 1]
+  }
+
+  it('生成内容未通过安全审核', async () => {
+    expect(await lastReply(`生成图像 ${await image()} [mock:safety] 改成红色`))
+      .to.equal('图像处理失败：生成内容未通过安全审核，请调整提示词或更换图片')
+  })
+
+  it('提示词被拦截', async () => {
+    expect(await lastReply(`生成图像 ${await image()} [mock:prompt_blocked] 改成红色`))
+      .to.equal('图像处理失败：提示词或图片未通过安全审核，请修改后重试')
+  })
+
+  it('只返回文字时转述模型的回复', async () => {
+    const reply = await lastReply(`生成图像 ${await image()} [mock:text_only] 改成红色`)
+    expect(reply).to.contain('图像处理失败：模型没有返回图片')
+    expect(reply).to.contain('这是模拟的文字回复，没有生成图片。')
+  })
+
+  it('空响应', async () => {
+    expect(await lastReply(`文生图 [mock:empty] 一只猫`)).to.equal('图像生成失败：未能生成图片')
+  })
+
+  it('上游限流', async () => {
+    expect(await lastReply(`生成图像 ${await image()} [mock:quota] 改成红色`))
+      .to.equal('图像处理失败：上游服务额度已用尽或请求过于频繁，请稍后重试')
+  })
+
+  it('上游服务错误', async () => {
+    expect(await lastReply(`合并 ${await image()} ${await image('#00ff00')} [mock:upstream] 拼在一起`))
+      .to.equal('图片合并失败：图像服务暂时不可用，请稍后重试')
+  })
+})
@@ -0,0 +1,47 @@
+import { App, HTTP, Logger } from 'koishi'
+import { mkdtempSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import mock from '@koishijs/plugin-mock'
+import memory from '@koishijs/plugin-database-memory'
+import sharp from 'sharp'
+import * as plugin from '../src'
+
+// 只输出错误日志
+Logger.levels.base = 1
+
+// 直接测试内部模块时使用的日志
+export const logger = new Logger('test')
+
+// 使用本地模拟提供方的测试应用：不调用任何API，不重试、不熔断
+export function createApp(config: Partial<plugin.Config> = {}) {
+  const app = new App()
+  app.plugin(HTTP)
+  app.plugin(mock)
+  app.plugin(memory)
+  app.plugin(plugin, {
+    apiKey: 'test-key',
+    defaultProvider: 'mock',
+    mockLatency: 0,
+    maxRetries: 0,
+    circuitThreshold: 0,
+    storagePath: mkdtempSync(join(tmpdir(), 'yunwu-figurine-')),
+    ...config,
+  })
+  return app
+}
+
+// 消息中的图片元素，内容为纯色 PNG
+export async function image(color = '#ff0000') {
+  const buffer = await sharp({ create: { width: 64, height: 64, channels: 3, background: color } }).png().toBuffer()
+  return `<img src="data:image/png;base64,${buffer.toString('base64')}"/>`
+}
+
+// 回复中的图片数量
+export function countImages(replies: string[]) {
+  return replies.join('').match(/<img /g)?.length || 0
+}
+
+export function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
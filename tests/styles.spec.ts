@@ -0,0 +1,65 @@
+import { expect } from 'chai'
+import * as plugin from '../src'
+import { countImages, createApp, image, sleep } from './shared'
+
+describe('风格命令', () => {
+  const app = createApp()
+  const client = app.mock.client('123', '456')
+
+  before(async () => {
+    await app.start()
+    await app.mock.initUser('123', 3)
+  })
+
+  it('列出配置中导入的风格', async () => {
+    const [list] = await client.receive('图像处理.风格')
+    expect(list).to.contain('变手办 - 转换为手办风格')
+    expect(list).to.contain('变真人 - 转换为真人风格')
+  })
+
+  it('使用风格处理图片', async () => {
+    const replies = await client.receive(`变手办 ${await image()}`)
+    expect(replies[0]).to.equal('开始处理图片（变手办）...')
+    expect(replies[1]).to.match(/^图像处理完成！<img /)
+    expect(countImages(replies)).to.equal(1)
+  })
+
+  it('按 -n 生成多张图片', async () => {
+    const replies = await client.receive(`变真人 -n 2 ${await image()}`)
+    expect(countImages(replies)).to.equal(2)
+  })
+
+  it('拒绝超出范围的数量', async () => {
+    await client.shouldReply(`变手办 -n 5 ${await image()}`, '生成数量必须在 1-4 之间')
+  })
+
+  it('添加的风格立即可用，未填写描述时显示默认描述', async () => {
+    await client.shouldReply('图像处理.风格.添加 变油画 把这张图片变成油画', '已添加风格：变油画')
+    const [detail] = await client.receive('图像处理.风格.查看 变油画')
+    expect(detail).to.contain('图像风格转换')
+    const replies = await client.receive(`变油画 ${await image()}`)
+    expect(replies[1]).to.match(/^图像处理完成！/)
+  })
+
+  it('导入时校验风格的字段', async () => {
+    const [reply] = await client.receive('图像处理.风格.导入 [{"commandName":"坏风格","prompt":"p","imageMode":"sometimes"}]')
+    expect(reply).to.match(/^第 1 个风格「坏风格」不符合要求：/)
+    await client.shouldReply('图像处理.风格.查看 坏风格', '未找到风格：坏风格')
+  })
+
+  it('重命名与删除时注销风格的本地化文本', async () => {
+    await client.shouldReply('图像处理.风格.重命名 变油画 变水彩', '已将风格 变油画 重命名为 变水彩')
+    expect(app.i18n.get('commands.变油画.description')).to.deep.equal({})
+    expect(app.i18n.get('commands.变水彩.description')).to.have.property('zh-CN')
+    await client.shouldReply('图像处理.风格.删除 变水彩', '已删除风格：变水彩')
+    expect(app.i18n.get('commands.变水彩.description')).to.deep.equal({})
+  })
+
+  it('删除全部风格后重启不会重新导入配置中的风格', async () => {
+    await client.shouldReply('图像处理.风格.导入 -r [{"commandName":"变水彩","prompt":"p"}]', '已导入 1 个风格')
+    await client.shouldReply('图像处理.风格.删除 变水彩', '已删除风格：变水彩')
+    app.registry.get(plugin)!.restart()
+    await sleep(100)
+    await client.shouldReply('图像处理.风格', '暂无风格')
+  })
+})